@@ -63,7 +63,7 @@ function AppScreen() {
             </View>
           </View>
 
-          <TouchableOpacity style={styles.logoutButton} onPress={logout}>
+          <TouchableOpacity style={styles.logoutButton} onPress={() => logout()}>
             <Text style={styles.buttonText}>Logout</Text>
           </TouchableOpacity>
         </View>
@@ -78,9 +78,9 @@ function AppScreen() {
         <Text style={styles.title}>Scalekit Auth</Text>
         <Text style={styles.subtitle}>Secure authentication for your Expo app</Text>
 
-        {error && (
+        {error && error.code !== 'user_cancelled' && (
           <View style={styles.errorBox}>
-            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.errorText}>{error.message}</Text>
           </View>
         )}
 
@@ -0,0 +1,78 @@
+import { XML } from '@expo/config-plugins';
+import { addSchemeIntentFilter, callbackFilterFromPath } from '../android';
+import { createFreshManifest, createPrebuiltManifest } from './fixtures';
+
+describe('addSchemeIntentFilter', () => {
+  describe('fresh project', () => {
+    it('adds a VIEW intent filter for the schemes', () => {
+      const manifest = addSchemeIntentFilter(createFreshManifest(), ['myapp', 'myapp-dev']);
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+
+    it('restricts the filter to the callback host and path', () => {
+      const manifest = addSchemeIntentFilter(
+        createFreshManifest(),
+        ['myapp'],
+        callbackFilterFromPath('auth/callback')
+      );
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+
+    it('registers the callback filter on an activity-alias', () => {
+      const manifest = addSchemeIntentFilter(
+        createFreshManifest(),
+        ['myapp'],
+        callbackFilterFromPath('auth/callback', { activityAlias: '.ScalekitCallbackActivity' })
+      );
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+  });
+
+  describe('project that already registers the scheme', () => {
+    it('leaves the existing filter alone', () => {
+      const manifest = addSchemeIntentFilter(createPrebuiltManifest(), ['myapp']);
+
+      expect(manifest).toEqual(createPrebuiltManifest());
+    });
+
+    it('adds only the missing schemes', () => {
+      const manifest = addSchemeIntentFilter(createPrebuiltManifest(), ['myapp', 'myapp-dev']);
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+
+    it('adds a callback filter next to the scheme-wide one', () => {
+      const manifest = addSchemeIntentFilter(
+        createPrebuiltManifest(),
+        ['myapp'],
+        callbackFilterFromPath('auth/callback')
+      );
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+
+    it('reuses an existing activity-alias', () => {
+      const callbackFilter = callbackFilterFromPath('auth/callback', {
+        activityAlias: '.ScalekitCallbackActivity',
+      });
+      const once = addSchemeIntentFilter(createPrebuiltManifest(), ['myapp'], callbackFilter);
+      const twice = addSchemeIntentFilter(
+        JSON.parse(JSON.stringify(once)),
+        ['myapp', 'myapp-dev'],
+        callbackFilter
+      );
+
+      expect(XML.format(twice)).toMatchSnapshot();
+    });
+  });
+
+  it('leaves a manifest without a main activity unchanged', () => {
+    const manifest = createFreshManifest();
+    manifest.manifest.application![0].activity = [];
+
+    expect(addSchemeIntentFilter(manifest, ['myapp'])).toEqual(manifest);
+  });
+});
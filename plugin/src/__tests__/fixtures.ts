@@ -0,0 +1,45 @@
+import { AndroidConfig } from '@expo/config-plugins';
+
+type AndroidManifest = AndroidConfig.Manifest.AndroidManifest;
+
+/**
+ * AndroidManifest.xml of a fresh project, before any scheme is registered
+ */
+export const createFreshManifest = (): AndroidManifest => ({
+  manifest: {
+    $: { 'xmlns:android': 'http://schemas.android.com/apk/res/android' },
+    queries: [],
+    application: [
+      {
+        $: { 'android:name': '.MainApplication' },
+        activity: [
+          {
+            $: { 'android:name': '.MainActivity', 'android:exported': 'true' },
+            'intent-filter': [
+              {
+                action: [{ $: { 'android:name': 'android.intent.action.MAIN' } }],
+                category: [{ $: { 'android:name': 'android.intent.category.LAUNCHER' } }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+});
+
+/**
+ * AndroidManifest.xml after `expo prebuild` registered the `myapp` scheme
+ */
+export const createPrebuiltManifest = (): AndroidManifest => {
+  const manifest = createFreshManifest();
+  manifest.manifest.application![0].activity![0]['intent-filter']!.push({
+    action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+    category: [
+      { $: { 'android:name': 'android.intent.category.DEFAULT' } },
+      { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+    ],
+    data: [{ $: { 'android:scheme': 'myapp' } }, { $: { 'android:scheme': 'com.example.app' } }],
+  });
+  return manifest;
+};
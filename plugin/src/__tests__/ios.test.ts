@@ -0,0 +1,53 @@
+import { IOSConfig } from '@expo/config-plugins';
+import { addUrlSchemes } from '../ios';
+
+const BUNDLE_IDENTIFIER = 'com.example.app';
+
+/**
+ * Info.plist of a project that already registers `myapp` (as `expo prebuild` does for `scheme`)
+ */
+const createPrebuiltInfoPlist = (): IOSConfig.InfoPlist => ({
+  CFBundleURLTypes: [
+    {
+      CFBundleURLSchemes: ['myapp', BUNDLE_IDENTIFIER],
+      CFBundleURLName: BUNDLE_IDENTIFIER,
+    } as NonNullable<IOSConfig.InfoPlist['CFBundleURLTypes']>[number],
+  ],
+});
+
+describe('addUrlSchemes', () => {
+  it('adds a URL type to a fresh Info.plist', () => {
+    expect(addUrlSchemes({}, ['myapp'], BUNDLE_IDENTIFIER)).toMatchSnapshot();
+  });
+
+  it('adds a URL type without a name', () => {
+    expect(addUrlSchemes({}, ['myapp', 'myapp-dev'])).toMatchSnapshot();
+  });
+
+  it('leaves a scheme that is already registered alone', () => {
+    const infoPlist = createPrebuiltInfoPlist();
+
+    expect(addUrlSchemes(infoPlist, ['myapp'], BUNDLE_IDENTIFIER)).toEqual(
+      createPrebuiltInfoPlist()
+    );
+  });
+
+  it('adds missing schemes to the existing URL type of the same name', () => {
+    expect(
+      addUrlSchemes(createPrebuiltInfoPlist(), ['myapp', 'myapp-staging'], BUNDLE_IDENTIFIER)
+    ).toMatchSnapshot();
+  });
+
+  it('adds a separate URL type when no existing type has the name', () => {
+    expect(
+      addUrlSchemes(createPrebuiltInfoPlist(), ['myapp-staging'], 'com.example.other')
+    ).toMatchSnapshot();
+  });
+
+  it('is idempotent', () => {
+    const once = addUrlSchemes({}, ['myapp'], BUNDLE_IDENTIFIER);
+    const twice = addUrlSchemes(JSON.parse(JSON.stringify(once)), ['myapp'], BUNDLE_IDENTIFIER);
+
+    expect(twice).toEqual(once);
+  });
+});
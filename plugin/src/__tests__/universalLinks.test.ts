@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AndroidConfig, ExportedConfig, Mod, ModPlatform, XML } from '@expo/config-plugins';
+import { ExpoConfig } from 'expo/config';
+import { withUniversalLinks } from '../universalLinks';
+import { createFreshManifest, createPrebuiltManifest } from './fixtures';
+
+const createConfig = (): ExpoConfig => ({
+  name: 'Example',
+  slug: 'example',
+  scheme: 'myapp',
+  ios: { bundleIdentifier: 'com.example.app', appleTeamId: 'TEAMID1234' },
+  android: { package: 'com.example.app' },
+});
+
+/**
+ * Evaluate a mod registered on the config, as `expo prebuild` does
+ */
+const runMod = async <T>(
+  mod: Mod<T> | undefined,
+  config: ExpoConfig,
+  platform: ModPlatform,
+  modResults: T,
+  projectRoot = '/app'
+): Promise<T> => {
+  const result = await mod!({
+    ...config,
+    modResults,
+    modRawConfig: config,
+    modRequest: {
+      projectRoot,
+      platformProjectRoot: path.join(projectRoot, platform),
+      modName: 'test',
+      platform,
+      introspect: false,
+    },
+  });
+  return result.modResults;
+};
+
+const withAuthDomains = (config: ExpoConfig, wellKnownDir?: string): ExportedConfig =>
+  withUniversalLinks(config, {
+    universalLinks: {
+      domains: ['auth.example.com', 'login.example.com'],
+      sha256CertFingerprints: ['AB:CD:EF'],
+      wellKnownDir,
+    },
+    callbackPath: 'auth/callback',
+  });
+
+describe('withUniversalLinks', () => {
+  describe('fresh project', () => {
+    it('adds the associated domains entitlement', async () => {
+      const config = withAuthDomains(createConfig());
+
+      expect(await runMod(config.mods?.ios?.entitlements, config, 'ios', {})).toMatchSnapshot();
+    });
+
+    it('adds auto-verified App Links intent filters', async () => {
+      const config = withAuthDomains(createConfig());
+      const manifest = await runMod(
+        config.mods?.android?.manifest,
+        config,
+        'android',
+        createFreshManifest()
+      );
+
+      expect(XML.format(manifest)).toMatchSnapshot();
+    });
+  });
+
+  describe('project that already has the scheme and domains', () => {
+    it('keeps existing associated domains and adds only the missing ones', async () => {
+      const config = withAuthDomains(createConfig());
+      const entitlements = await runMod(config.mods?.ios?.entitlements, config, 'ios', {
+        'com.apple.developer.associated-domains': ['applinks:auth.example.com', 'webcredentials:example.com'],
+      });
+
+      expect(entitlements).toMatchSnapshot();
+    });
+
+    it('adds App Links next to the scheme filter and does not duplicate them', async () => {
+      const config = withAuthDomains(createConfig());
+      const once = await runMod(
+        config.mods?.android?.manifest,
+        config,
+        'android',
+        createPrebuiltManifest()
+      );
+      const twice = await runMod(
+        withAuthDomains(createConfig()).mods?.android?.manifest,
+        config,
+        'android',
+        JSON.parse(JSON.stringify(once)) as AndroidConfig.Manifest.AndroidManifest
+      );
+
+      expect(XML.format(twice)).toMatchSnapshot();
+      expect(twice).toEqual(once);
+    });
+  });
+
+  it('writes the .well-known files', async () => {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'scalekit-plugin-'));
+    try {
+      const config = withAuthDomains(createConfig(), 'public/.well-known');
+      await runMod(config.mods?.ios?.dangerous, config, 'ios', undefined, projectRoot);
+      await runMod(config.mods?.android?.dangerous, config, 'android', undefined, projectRoot);
+
+      const wellKnown = path.join(projectRoot, 'public/.well-known');
+      expect(fs.readFileSync(path.join(wellKnown, 'apple-app-site-association'), 'utf8')).toMatchSnapshot();
+      expect(fs.readFileSync(path.join(wellKnown, 'assetlinks.json'), 'utf8')).toMatchSnapshot();
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('requires at least one domain', () => {
+    expect(() =>
+      withUniversalLinks(createConfig(), {
+        universalLinks: { domains: [] },
+        callbackPath: 'auth/callback',
+      })
+    ).toThrow('universalLinks.domains must list at least one domain');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @scalekit-sdk/expo - Android Manifest Modifications
+ */
+
+import { AndroidConfig } from '@expo/config-plugins';
+
+type AndroidManifest = AndroidConfig.Manifest.AndroidManifest;
+type ManifestIntentFilter = AndroidConfig.Manifest.ManifestIntentFilter;
+
+/**
+ * Restrict the OAuth callback intent filter to one host/path (optional)
+ *
+ * Without it, every link with the app's scheme opens the app. With it, only
+ * `<scheme>://<host><pathPrefix>` is handled, optionally by a dedicated
+ * `<activity-alias>` of the main activity.
+ */
+export interface ScalekitCallbackFilterOptions {
+  /** Host of the callback URL (default: first segment of callbackPath, e.g. `auth`) */
+  host?: string;
+  /** Path prefix of the callback URL (default: rest of callbackPath, e.g. `/callback`) */
+  pathPrefix?: string;
+  /** Name of an activity-alias to register the callback filter on, e.g. `.ScalekitCallbackActivity` */
+  activityAlias?: string;
+}
+
+/**
+ * Find the launcher activity
+ */
+export const findMainActivity = (
+  androidManifest: AndroidManifest
+): AndroidConfig.Manifest.ManifestActivity | undefined =>
+  androidManifest.manifest.application?.[0]?.activity?.find(
+    (activity) =>
+      activity.$?.['android:name'] === '.MainActivity' ||
+      activity['intent-filter']?.some((filter) =>
+        filter.action?.some((action) => action.$?.['android:name'] === 'android.intent.action.MAIN')
+      )
+  );
+
+/**
+ * Split a callback path such as `auth/callback` into a host and path prefix
+ */
+export const callbackFilterFromPath = (
+  callbackPath: string,
+  options: ScalekitCallbackFilterOptions = {}
+): ScalekitCallbackFilterOptions => {
+  const [host, ...segments] = callbackPath.replace(/^\/+/, '').split('/');
+  const pathPrefix = segments.filter(Boolean).join('/');
+
+  return {
+    ...options,
+    host: options.host ?? host,
+    pathPrefix: options.pathPrefix ?? (pathPrefix ? `/${pathPrefix}` : undefined),
+  };
+};
+
+/**
+ * Get the intent filters of the main activity, or of the callback activity-alias (created if missing)
+ */
+const getTargetIntentFilters = (
+  androidManifest: AndroidManifest,
+  activityAlias?: string
+): ManifestIntentFilter[] | null => {
+  const mainApplication = androidManifest.manifest.application?.[0];
+  const mainActivity = findMainActivity(androidManifest);
+  if (!mainApplication || !mainActivity) {
+    return null;
+  }
+
+  if (!activityAlias) {
+    mainActivity['intent-filter'] = mainActivity['intent-filter'] ?? [];
+    return mainActivity['intent-filter'];
+  }
+
+  mainApplication['activity-alias'] = mainApplication['activity-alias'] ?? [];
+  let alias = mainApplication['activity-alias'].find(
+    (candidate) => candidate.$?.['android:name'] === activityAlias
+  );
+  if (!alias) {
+    alias = {
+      $: {
+        'android:name': activityAlias,
+        'android:targetActivity': mainActivity.$['android:name'],
+        'android:exported': 'true',
+      },
+    };
+    mainApplication['activity-alias'].push(alias);
+  }
+  alias['intent-filter'] = alias['intent-filter'] ?? [];
+  return alias['intent-filter'];
+};
+
+/**
+ * Add a VIEW intent filter for the URL schemes
+ *
+ * Schemes that already have a filter with the same host/path are skipped.
+ */
+export const addSchemeIntentFilter = (
+  androidManifest: AndroidManifest,
+  schemes: string[],
+  callbackFilter?: ScalekitCallbackFilterOptions
+): AndroidManifest => {
+  const intentFilters = getTargetIntentFilters(androidManifest, callbackFilter?.activityAlias);
+  if (!intentFilters) {
+    return androidManifest;
+  }
+
+  const host = callbackFilter?.host;
+  const pathPrefix = callbackFilter?.pathPrefix;
+
+  const missingSchemes = schemes.filter(
+    (scheme) =>
+      !intentFilters.some((filter) =>
+        filter.data?.some(
+          (data) =>
+            data.$?.['android:scheme'] === scheme &&
+            data.$?.['android:host'] === host &&
+            data.$?.['android:pathPrefix'] === pathPrefix
+        )
+      )
+  );
+
+  if (missingSchemes.length) {
+    intentFilters.push({
+      action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+      category: [
+        { $: { 'android:name': 'android.intent.category.DEFAULT' } },
+        { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+      ],
+      data: missingSchemes.map((scheme) => ({
+        $: {
+          'android:scheme': scheme,
+          ...(host ? { 'android:host': host } : {}),
+          ...(pathPrefix ? { 'android:pathPrefix': pathPrefix } : {}),
+        },
+      })),
+    });
+  }
+
+  return androidManifest;
+};
@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+/**
+ * @scalekit-sdk/expo - CLI
+ *
+ * Usage: npx scalekit-expo doctor [options]
+ */
+
+import { ExpoConfig, getConfig } from 'expo/config';
+import { DoctorCheck, DoctorReport, runDoctor } from './doctor';
+
+const USAGE = `Usage: scalekit-expo doctor [options]
+
+Checks the Scalekit setup of an Expo project.
+
+Options:
+  --project-root <dir>   Expo project directory (default: current directory)
+  --env-url <url>        Scalekit environment URL (default: $EXPO_PUBLIC_SCALEKIT_ENV_URL)
+  --client-id <id>       Scalekit client ID (default: $EXPO_PUBLIC_SCALEKIT_CLIENT_ID)
+  --redirect-uri <uri>   Redirect URI passed to ScalekitProvider (default: derived from the app config)
+  --no-network           Skip the checks against the Scalekit environment
+  --json                 Print the report as JSON
+  -h, --help             Show this help
+`;
+
+const SYMBOLS: Record<DoctorCheck['status'], string> = {
+  pass: '✔',
+  warn: '⚠',
+  fail: '✖',
+  skip: '-',
+};
+
+interface CliOptions {
+  projectRoot: string;
+  envUrl?: string;
+  clientId?: string;
+  redirectUri?: string;
+  offline: boolean;
+  json: boolean;
+}
+
+/**
+ * Parse the `doctor` arguments; throws on unknown options
+ */
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    projectRoot: process.cwd(),
+    envUrl: process.env.EXPO_PUBLIC_SCALEKIT_ENV_URL || undefined,
+    clientId: process.env.EXPO_PUBLIC_SCALEKIT_CLIENT_ID || undefined,
+    offline: false,
+    json: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--project-root':
+        options.projectRoot = value();
+        break;
+      case '--env-url':
+        options.envUrl = value();
+        break;
+      case '--client-id':
+        options.clientId = value();
+        break;
+      case '--redirect-uri':
+        options.redirectUri = value();
+        break;
+      case '--no-network':
+        options.offline = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+};
+
+/**
+ * Read the Expo config, falling back to reading it without config plugins
+ *
+ * Plugins throw on some of the problems doctor explains (an invalid scheme, the
+ * plugin not being installed or built), so a failure must not stop the checks.
+ * Resolves to the config and the plugin error, if any.
+ */
+const readConfig = (projectRoot: string): { exp: ExpoConfig; pluginError?: Error } => {
+  try {
+    return { exp: getConfig(projectRoot, { skipSDKVersionRequirement: true }).exp };
+  } catch (error) {
+    const { exp, rootConfig } = getConfig(projectRoot, {
+      skipSDKVersionRequirement: true,
+      skipPlugins: true,
+    });
+    // skipPlugins drops the plugin list; restore it from app.json
+    return {
+      exp: { ...exp, plugins: rootConfig.expo?.plugins ?? rootConfig.plugins },
+      pluginError: error as Error,
+    };
+  }
+};
+
+/**
+ * Print the report for a terminal
+ */
+const printReport = (report: DoctorReport): void => {
+  for (const check of report.checks) {
+    console.log(`${SYMBOLS[check.status]} ${check.message}`);
+    if (check.fix && (check.status === 'fail' || check.status === 'warn')) {
+      console.log(`  → ${check.fix}`);
+    }
+  }
+
+  const failures = report.checks.filter((check) => check.status === 'fail').length;
+  const warnings = report.checks.filter((check) => check.status === 'warn').length;
+  console.log(
+    failures
+      ? `\n${failures} check${failures > 1 ? 's' : ''} failed`
+      : `\nNo problems found${warnings ? ` (${warnings} warning${warnings > 1 ? 's' : ''})` : ''}`
+  );
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'doctor') {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return 1;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  let report: DoctorReport;
+  try {
+    const { exp, pluginError } = readConfig(options.projectRoot);
+    report = await runDoctor(exp, options);
+    if (pluginError) {
+      // Prebuild fails the same way
+      report = {
+        ok: false,
+        checks: [
+          {
+            id: 'config',
+            status: 'fail',
+            message: `Config plugins failed: ${pluginError.message}`,
+            fix: 'Fix the checks below and make sure every plugin in the app config is installed',
+          },
+          ...report.checks,
+        ],
+      };
+    }
+  } catch (error) {
+    report = {
+      ok: false,
+      checks: [
+        {
+          id: 'config',
+          status: 'fail',
+          message: `Could not read the Expo config in ${options.projectRoot}: ${(error as Error).message}`,
+          fix: 'Run the command from your app directory or pass --project-root',
+        },
+      ],
+    };
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+  return report.ok ? 0 : 1;
+};
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
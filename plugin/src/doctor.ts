@@ -0,0 +1,350 @@
+/**
+ * @scalekit-sdk/expo - Doctor
+ *
+ * Checks an Expo project's Scalekit setup for common misconfigurations
+ */
+
+import { ExpoConfig } from 'expo/config';
+import { resolveSchemes } from './schemes';
+import type { ScalekitPluginProps } from './index';
+
+const PACKAGE_NAME = '@scalekit-sdk/expo';
+const DEFAULT_CALLBACK_PATH = 'auth/callback';
+const NETWORK_TIMEOUT_MS = 5000;
+
+/**
+ * Result of one check
+ */
+export interface DoctorCheck {
+  /** Stable identifier, e.g. `plugin` */
+  id: string;
+  status: 'pass' | 'warn' | 'fail' | 'skip';
+  message: string;
+  /** How to fix a warning or failure */
+  fix?: string;
+}
+
+/**
+ * Settings passed to ScalekitProvider, which the Expo config does not contain
+ */
+export interface DoctorOptions {
+  envUrl?: string;
+  clientId?: string;
+  redirectUri?: string;
+  /** Skip the discovery and authorization requests (default: false) */
+  offline?: boolean;
+}
+
+/**
+ * Doctor report
+ */
+export interface DoctorReport {
+  /** False if any check failed */
+  ok: boolean;
+  checks: DoctorCheck[];
+}
+
+/**
+ * Find the plugin entry in `expo.plugins`
+ *
+ * Resolves to null when the plugin is not listed, or its options otherwise.
+ */
+const findPluginProps = (config: ExpoConfig): ScalekitPluginProps | null => {
+  for (const entry of config.plugins ?? []) {
+    const [name, props] = Array.isArray(entry) ? entry : [entry];
+    if (name === PACKAGE_NAME || name === `${PACKAGE_NAME}/app.plugin`) {
+      return (props as ScalekitPluginProps | undefined) ?? {};
+    }
+  }
+  return null;
+};
+
+/**
+ * fetch with a timeout; resolves to null if the server cannot be reached
+ */
+const fetchWithTimeout = async (url: string, init: RequestInit = {}): Promise<Response | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), NETWORK_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Check the Expo config and plugin options
+ */
+const checkAppConfig = (
+  config: ExpoConfig,
+  checks: DoctorCheck[]
+): { schemes: string[]; callbackPath: string; domains: string[] } => {
+  const pluginProps = findPluginProps(config);
+  if (pluginProps) {
+    checks.push({ id: 'plugin', status: 'pass', message: `${PACKAGE_NAME} is in expo.plugins` });
+  } else {
+    checks.push({
+      id: 'plugin',
+      status: 'fail',
+      message: `${PACKAGE_NAME} is missing from expo.plugins`,
+      fix: `Add "${PACKAGE_NAME}" to "plugins" in app.json, then run \`npx expo prebuild\``,
+    });
+  }
+
+  const props = pluginProps ?? {};
+  const callbackPath = (props.callbackPath || DEFAULT_CALLBACK_PATH).replace(/^\/+/, '');
+  const domains = props.universalLinks?.domains ?? [];
+
+  let schemes: string[] = [];
+  try {
+    schemes = resolveSchemes(config, props.scheme);
+    const source = props.scheme ? 'plugin options' : config.scheme ? 'expo.scheme' : 'expo.slug';
+    checks.push({
+      id: 'scheme',
+      status: source === 'expo.slug' ? 'warn' : 'pass',
+      message: `URL scheme${schemes.length > 1 ? 's' : ''} ${schemes.join(', ')} (from ${source})`,
+      fix: source === 'expo.slug' ? 'Set "scheme" in app.json so it does not change with the slug' : undefined,
+    });
+  } catch (error) {
+    checks.push({
+      id: 'scheme',
+      status: 'fail',
+      message: (error as Error).message.replace(/^\[Scalekit\] /, ''),
+      fix: 'Set a valid "scheme" in app.json or in the plugin options',
+    });
+  }
+
+  return { schemes, callbackPath, domains };
+};
+
+/**
+ * Check the envUrl passed to ScalekitProvider
+ */
+const checkEnvUrl = (envUrl: string | undefined, checks: DoctorCheck[]): string | null => {
+  if (!envUrl) {
+    checks.push({
+      id: 'env-url',
+      status: 'fail',
+      message: 'No envUrl provided',
+      fix: 'Pass --env-url or set EXPO_PUBLIC_SCALEKIT_ENV_URL',
+    });
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(envUrl);
+  } catch {
+    checks.push({
+      id: 'env-url',
+      status: 'fail',
+      message: `envUrl "${envUrl}" is not a valid URL`,
+      fix: 'Use your environment URL from the Scalekit dashboard, e.g. https://your-env.scalekit.com',
+    });
+    return null;
+  }
+
+  if (url.protocol !== 'https:') {
+    checks.push({
+      id: 'env-url',
+      status: 'fail',
+      message: `envUrl "${envUrl}" does not use https`,
+      fix: `Use https://${url.host}`,
+    });
+  } else if (envUrl.endsWith('/') || url.pathname !== '/' || url.search || url.hash) {
+    checks.push({
+      id: 'env-url',
+      status: 'warn',
+      message: `envUrl "${envUrl}" has a trailing slash or path`,
+      fix: `Use ${url.origin} (the issuer must match exactly)`,
+    });
+  } else {
+    checks.push({ id: 'env-url', status: 'pass', message: `envUrl ${envUrl}` });
+  }
+
+  return url.origin;
+};
+
+/**
+ * Check the redirect URI against the schemes and domains the app registers
+ */
+const checkRedirectUri = (
+  redirectUri: string | undefined,
+  app: { schemes: string[]; callbackPath: string; domains: string[] },
+  checks: DoctorCheck[]
+): string | null => {
+  const resolved = redirectUri ?? (app.schemes[0] ? `${app.schemes[0]}://${app.callbackPath}` : null);
+  if (!resolved) {
+    checks.push({
+      id: 'redirect-uri',
+      status: 'skip',
+      message: 'No redirect URI to check (no URL scheme)',
+    });
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(resolved);
+  } catch {
+    checks.push({
+      id: 'redirect-uri',
+      status: 'fail',
+      message: `Redirect URI "${resolved}" is not a valid URL`,
+    });
+    return null;
+  }
+
+  const scheme = url.protocol.slice(0, -1).toLowerCase();
+  const registered =
+    scheme === 'https'
+      ? app.domains.includes(url.hostname)
+      : app.schemes.some((candidate) => candidate.toLowerCase() === scheme);
+
+  if (registered) {
+    checks.push({
+      id: 'redirect-uri',
+      status: 'pass',
+      message: `Redirect URI ${resolved}${redirectUri ? '' : ' (default)'} returns to the app`,
+    });
+  } else {
+    checks.push({
+      id: 'redirect-uri',
+      status: 'fail',
+      message:
+        scheme === 'https'
+          ? `Redirect URI ${resolved} uses ${url.hostname}, which is not in universalLinks.domains`
+          : `Redirect URI ${resolved} uses the scheme "${scheme}", which the app does not register`,
+      fix:
+        scheme === 'https'
+          ? `Add "${url.hostname}" to the plugin's universalLinks.domains`
+          : `Add "${scheme}" to the plugin's "scheme" option or use ${app.schemes[0] ?? '<scheme>'}://${app.callbackPath}`,
+    });
+  }
+
+  return resolved;
+};
+
+/**
+ * Check the discovery document and that the authorization endpoint accepts the client and redirect URI
+ */
+const checkEnvironment = async (
+  envUrl: string,
+  clientId: string | undefined,
+  redirectUri: string | null,
+  checks: DoctorCheck[]
+): Promise<void> => {
+  const response = await fetchWithTimeout(`${envUrl}/.well-known/openid-configuration`);
+  if (!response) {
+    checks.push({
+      id: 'discovery',
+      status: 'skip',
+      message: `Could not reach ${envUrl}`,
+      fix: 'Check the envUrl and your network connection',
+    });
+    return;
+  }
+
+  let document: Record<string, any> | null = null;
+  if (response.ok) {
+    document = await response.json().catch(() => null);
+  }
+  if (!document?.issuer || !document.authorization_endpoint) {
+    checks.push({
+      id: 'discovery',
+      status: 'fail',
+      message: `${envUrl} did not return an OpenID Connect discovery document (HTTP ${response.status})`,
+      fix: 'Use the environment URL from the Scalekit dashboard',
+    });
+    return;
+  }
+
+  if (document.issuer.replace(/\/+$/, '') !== envUrl) {
+    checks.push({
+      id: 'discovery',
+      status: 'warn',
+      message: `Discovery issuer ${document.issuer} does not match envUrl ${envUrl}`,
+      fix: `Use ${document.issuer} as envUrl`,
+    });
+  } else {
+    checks.push({ id: 'discovery', status: 'pass', message: `Discovery document found (issuer ${document.issuer})` });
+  }
+
+  const methods: string[] | undefined = document.code_challenge_methods_supported;
+  if (!methods) {
+    checks.push({ id: 'pkce', status: 'skip', message: 'The environment does not list its PKCE methods' });
+  } else if (!methods.includes('S256')) {
+    checks.push({
+      id: 'pkce',
+      status: 'fail',
+      message: 'The environment does not advertise PKCE S256 support',
+    });
+  } else {
+    checks.push({ id: 'pkce', status: 'pass', message: 'PKCE S256 is supported' });
+  }
+
+  if (!clientId || !redirectUri) {
+    return;
+  }
+
+  // Scalekit rejects unknown clients and unregistered redirect URIs before redirecting to login
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'openid',
+    code_challenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    code_challenge_method: 'S256',
+    state: 'scalekit-doctor',
+  });
+  const authorization = await fetchWithTimeout(`${document.authorization_endpoint}?${params}`, {
+    redirect: 'manual',
+  });
+  if (!authorization) {
+    checks.push({ id: 'authorization', status: 'skip', message: 'Could not reach the authorization endpoint' });
+  } else if (authorization.status >= 400) {
+    checks.push({
+      id: 'authorization',
+      status: 'fail',
+      message: `The authorization endpoint rejected client ${clientId} with redirect URI ${redirectUri} (HTTP ${authorization.status})`,
+      fix: `Add ${redirectUri} to the allowed redirect URIs in the Scalekit dashboard and check the client ID`,
+    });
+  } else {
+    checks.push({
+      id: 'authorization',
+      status: 'pass',
+      message: `Client ${clientId} and redirect URI ${redirectUri} are accepted`,
+    });
+  }
+};
+
+/**
+ * Run all checks against an Expo config
+ */
+export const runDoctor = async (config: ExpoConfig, options: DoctorOptions = {}): Promise<DoctorReport> => {
+  const checks: DoctorCheck[] = [];
+
+  const app = checkAppConfig(config, checks);
+  const envUrl = checkEnvUrl(options.envUrl, checks);
+
+  if (options.clientId) {
+    checks.push({ id: 'client-id', status: 'pass', message: `clientId ${options.clientId}` });
+  } else {
+    checks.push({
+      id: 'client-id',
+      status: 'fail',
+      message: 'No clientId provided',
+      fix: 'Pass --client-id or set EXPO_PUBLIC_SCALEKIT_CLIENT_ID',
+    });
+  }
+
+  const redirectUri = checkRedirectUri(options.redirectUri, app, checks);
+
+  if (envUrl && !options.offline) {
+    await checkEnvironment(envUrl, options.clientId, redirectUri, checks);
+  }
+
+  return { ok: !checks.some((check) => check.status === 'fail'), checks };
+};
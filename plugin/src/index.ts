@@ -5,16 +5,43 @@
  */
 
 import { ConfigPlugin, withInfoPlist, withAndroidManifest } from '@expo/config-plugins';
+import { addSchemeIntentFilter, callbackFilterFromPath, ScalekitCallbackFilterOptions } from './android';
+import { addUrlSchemes } from './ios';
+import { resolveSchemes } from './schemes';
+import { ScalekitUniversalLinksOptions, withUniversalLinks } from './universalLinks';
+
+export { addSchemeIntentFilter, callbackFilterFromPath } from './android';
+export type { ScalekitCallbackFilterOptions } from './android';
+export { addUrlSchemes } from './ios';
+export { isValidScheme, resolveSchemes } from './schemes';
+export { createAppleAppSiteAssociation, createAssetLinks } from './universalLinks';
+export type { ScalekitUniversalLinksOptions } from './universalLinks';
 
 /**
  * Plugin configuration options
  */
 export interface ScalekitPluginProps {
   /**
-   * Custom URL scheme for your app (optional)
-   * If not provided, uses the app slug
+   * Custom URL scheme(s) for your app (optional)
+   * If not provided, uses `expo.scheme`, then the app slug. With several schemes
+   * (e.g. one per environment), the first is used for the default redirect URI.
    */
-  scheme?: string;
+  scheme?: string | string[];
+  /**
+   * Path of the OAuth callback (optional)
+   * The SDK's default redirect URI is `<scheme>://<callbackPath>` (default: 'auth/callback')
+   */
+  callbackPath?: string;
+  /**
+   * Only open the app for the callback URL instead of every link with the scheme (optional)
+   * `true` derives the host and path from callbackPath.
+   */
+  callbackFilter?: boolean | ScalekitCallbackFilterOptions;
+  /**
+   * HTTPS callback domains to bind to the app with Universal Links / App Links (optional)
+   * Verified domains cannot be claimed by other apps, unlike custom URL schemes.
+   */
+  universalLinks?: ScalekitUniversalLinksOptions;
 }
 
 /**
@@ -22,93 +49,40 @@ export interface ScalekitPluginProps {
  *
  * Automatically configures deep linking for OAuth callbacks
  */
-const withScalekit: ConfigPlugin<ScalekitPluginProps | void> = (config, props = {}) => {
-  const scheme = props.scheme || config.scheme || config.slug;
-
-  if (!scheme) {
-    throw new Error(
-      '[Scalekit] No URL scheme found. Please set "scheme" in app.json or provide it in the plugin config.'
-    );
-  }
+const withScalekit: ConfigPlugin<ScalekitPluginProps | void> = (config, pluginProps) => {
+  const props: ScalekitPluginProps = pluginProps || {};
+  const schemes = resolveSchemes(config, props.scheme);
+  const callbackPath = (props.callbackPath || 'auth/callback').replace(/^\/+/, '');
+  const callbackFilter = props.callbackFilter
+    ? callbackFilterFromPath(callbackPath, props.callbackFilter === true ? {} : props.callbackFilter)
+    : undefined;
+
+  // Expose the deep link settings to the SDK at runtime (Constants.expoConfig.extra.scalekit)
+  config.extra = {
+    ...config.extra,
+    scalekit: { ...config.extra?.scalekit, scheme: schemes[0], schemes, callbackPath },
+  };
 
   // Configure iOS
   config = withInfoPlist(config, (config) => {
-    const infoPlist = config.modResults;
-
-    // Add URL schemes for deep linking
-    if (!infoPlist.CFBundleURLTypes) {
-      infoPlist.CFBundleURLTypes = [];
-    }
-
-    const urlTypes = infoPlist.CFBundleURLTypes as Array<{
-      CFBundleTypeRole: string;
-      CFBundleURLSchemes: string[];
-      CFBundleURLName?: string;
-    }>;
-
-    // Check if scheme already exists
-    const existingScheme = urlTypes.find((type) =>
-      type.CFBundleURLSchemes?.includes(scheme)
+    config.modResults = addUrlSchemes(
+      config.modResults,
+      schemes,
+      config.ios?.bundleIdentifier || config.slug
     );
-
-    if (!existingScheme) {
-      urlTypes.push({
-        CFBundleTypeRole: 'Editor',
-        CFBundleURLSchemes: [scheme],
-        CFBundleURLName: config.ios?.bundleIdentifier || config.slug,
-      });
-    }
-
     return config;
   });
 
   // Configure Android
   config = withAndroidManifest(config, (config) => {
-    const androidManifest = config.modResults;
-    const mainApplication = androidManifest.manifest.application?.[0];
-
-    if (!mainApplication) {
-      return config;
-    }
-
-    // Find the main activity
-    const mainActivity = mainApplication.activity?.find(
-      (activity) =>
-        activity.$?.['android:name'] === '.MainActivity' ||
-        activity['intent-filter']?.some((filter) =>
-          filter.action?.some((action) => action.$?.['android:name'] === 'android.intent.action.MAIN')
-        )
-    );
-
-    if (!mainActivity) {
-      return config;
-    }
-
-    // Ensure intent-filter array exists
-    if (!mainActivity['intent-filter']) {
-      mainActivity['intent-filter'] = [];
-    }
-
-    // Check if deep link intent filter already exists
-    const hasDeepLinkFilter = mainActivity['intent-filter'].some((filter) =>
-      filter.data?.some((data: any) => data.$?.['android:scheme'] === scheme)
-    );
-
-    if (!hasDeepLinkFilter) {
-      // Add deep link intent filter
-      mainActivity['intent-filter'].push({
-        action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
-        category: [
-          { $: { 'android:name': 'android.intent.category.DEFAULT' } },
-          { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
-        ],
-        data: [{ $: { 'android:scheme': scheme } }],
-      });
-    }
-
+    config.modResults = addSchemeIntentFilter(config.modResults, schemes, callbackFilter);
     return config;
   });
 
+  if (props.universalLinks) {
+    config = withUniversalLinks(config, { universalLinks: props.universalLinks, callbackPath });
+  }
+
   return config;
 };
 
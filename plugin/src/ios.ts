@@ -0,0 +1,44 @@
+/**
+ * @scalekit-sdk/expo - iOS Info.plist Modifications
+ */
+
+import { IOSConfig } from '@expo/config-plugins';
+
+type URLType = NonNullable<IOSConfig.InfoPlist['CFBundleURLTypes']>[number];
+
+/**
+ * Register URL schemes in CFBundleURLTypes
+ *
+ * Schemes that are already registered are skipped. Missing schemes are added to
+ * the URL type named `urlName` (usually the bundle identifier) when one exists,
+ * so the plist never holds two URL types with the same CFBundleURLName.
+ */
+export const addUrlSchemes = (
+  infoPlist: IOSConfig.InfoPlist,
+  schemes: string[],
+  urlName?: string
+): IOSConfig.InfoPlist => {
+  const urlTypes = infoPlist.CFBundleURLTypes ?? [];
+  const missingSchemes = schemes.filter(
+    (scheme) => !urlTypes.some((type) => type.CFBundleURLSchemes?.includes(scheme))
+  );
+
+  if (missingSchemes.length) {
+    const namedType = urlName
+      ? urlTypes.find((type) => type.CFBundleURLName === urlName)
+      : undefined;
+
+    if (namedType) {
+      namedType.CFBundleURLSchemes = [...(namedType.CFBundleURLSchemes ?? []), ...missingSchemes];
+    } else {
+      urlTypes.push({
+        CFBundleTypeRole: 'Editor',
+        CFBundleURLSchemes: missingSchemes,
+        ...(urlName ? { CFBundleURLName: urlName } : {}),
+      } as URLType);
+    }
+  }
+
+  infoPlist.CFBundleURLTypes = urlTypes;
+  return infoPlist;
+};
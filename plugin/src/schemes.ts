@@ -0,0 +1,62 @@
+/**
+ * @scalekit-sdk/expo - URL Scheme Resolution
+ *
+ * Picks and validates the custom URL schemes the app registers for OAuth callbacks
+ */
+
+import { ExpoConfig } from 'expo/config';
+import { WarningAggregator } from '@expo/config-plugins';
+
+/**
+ * URI scheme syntax (RFC 3986, section 3.1): ALPHA *( ALPHA / DIGIT / "+" / "-" / "." )
+ */
+const SCHEME_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*$/;
+
+/**
+ * Whether a string is a syntactically valid URI scheme
+ */
+export const isValidScheme = (scheme: string): boolean => SCHEME_PATTERN.test(scheme);
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+/**
+ * Resolve the URL schemes to register
+ *
+ * Uses the plugin's `scheme` option, then `expo.scheme`, then the app slug. The
+ * first scheme is the primary one used for the SDK's default redirect URI.
+ *
+ * @throws If no scheme is found or a scheme is not valid per RFC 3986
+ */
+export const resolveSchemes = (config: ExpoConfig, scheme?: string | string[]): string[] => {
+  const pluginSchemes = toArray(scheme);
+  const appSchemes = toArray(config.scheme);
+  const candidates = pluginSchemes.length
+    ? pluginSchemes
+    : appSchemes.length
+      ? appSchemes
+      : toArray(config.slug);
+  const schemes = Array.from(new Set(candidates));
+
+  if (!schemes.length) {
+    throw new Error(
+      '[Scalekit] No URL scheme found. Please set "scheme" in app.json or provide it in the plugin config.'
+    );
+  }
+
+  for (const candidate of schemes) {
+    if (!isValidScheme(candidate)) {
+      throw new Error(
+        `[Scalekit] Invalid URL scheme "${candidate}": a scheme must start with a letter and contain only letters, digits, "+", "-" or "." (RFC 3986).`
+      );
+    }
+    if (candidate !== candidate.toLowerCase()) {
+      WarningAggregator.addWarningAndroid(
+        'scalekit',
+        `URL scheme "${candidate}" contains uppercase letters. Browsers lowercase schemes and Android matches them case-sensitively, so use "${candidate.toLowerCase()}".`
+      );
+    }
+  }
+
+  return schemes;
+};
@@ -0,0 +1,241 @@
+/**
+ * @scalekit-sdk/expo - Universal Links / App Links
+ *
+ * Binds HTTPS OAuth callbacks to the app through verified domains
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AndroidConfig,
+  ConfigPlugin,
+  WarningAggregator,
+  withAndroidManifest,
+  withDangerousMod,
+  withEntitlementsPlist,
+} from '@expo/config-plugins';
+import { findMainActivity } from './android';
+
+type ManifestIntentFilter = AndroidConfig.Manifest.ManifestIntentFilter;
+
+/**
+ * Universal Links (iOS) / App Links (Android) options
+ */
+export interface ScalekitUniversalLinksOptions {
+  /** HTTPS callback domains, e.g. `['auth.example.com']` */
+  domains: string[];
+  /** Path prefix handled by the app (default: `/<callbackPath>`) */
+  pathPrefix?: string;
+  /** Apple Developer Team ID for apple-app-site-association (default: `ios.appleTeamId`) */
+  appleTeamId?: string;
+  /** SHA-256 fingerprints of the Android signing certificates for assetlinks.json */
+  sha256CertFingerprints?: string[];
+  /**
+   * Directory, relative to the project root, to write `apple-app-site-association`
+   * and `assetlinks.json` to during prebuild (optional). Host its contents at
+   * `https://<domain>/.well-known/`.
+   */
+  wellKnownDir?: string;
+}
+
+const ASSOCIATED_DOMAINS_KEY = 'com.apple.developer.associated-domains';
+
+/**
+ * Normalize a path prefix to start with a single "/" and have no trailing "/"
+ */
+export const normalizePathPrefix = (pathPrefix: string): string =>
+  `/${pathPrefix.replace(/^\/+|\/+$/g, '')}`;
+
+/**
+ * Build the apple-app-site-association file contents
+ *
+ * Includes both the `components` format (iOS 13+) and the legacy `paths` format.
+ */
+export const createAppleAppSiteAssociation = (options: {
+  appleTeamId: string;
+  bundleIdentifier: string;
+  pathPrefix: string;
+}): Record<string, any> => {
+  const appId = `${options.appleTeamId}.${options.bundleIdentifier}`;
+  const pattern = `${normalizePathPrefix(options.pathPrefix)}*`;
+
+  return {
+    applinks: {
+      apps: [],
+      details: [
+        {
+          appID: appId,
+          appIDs: [appId],
+          paths: [pattern],
+          components: [{ '/': pattern }],
+        },
+      ],
+    },
+  };
+};
+
+/**
+ * Build the Digital Asset Links (assetlinks.json) file contents
+ */
+export const createAssetLinks = (options: {
+  packageName: string;
+  sha256CertFingerprints: string[];
+}): Record<string, any>[] => [
+  {
+    relation: ['delegate_permission/common.handle_all_urls'],
+    target: {
+      namespace: 'android_app',
+      package_name: options.packageName,
+      sha256_cert_fingerprints: options.sha256CertFingerprints,
+    },
+  },
+];
+
+/**
+ * Write a .well-known file, creating the directory if needed
+ */
+const writeWellKnownFile = (
+  projectRoot: string,
+  wellKnownDir: string,
+  fileName: string,
+  contents: unknown
+): void => {
+  const directory = path.resolve(projectRoot, wellKnownDir);
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(path.join(directory, fileName), `${JSON.stringify(contents, null, 2)}\n`);
+};
+
+/**
+ * Register HTTPS callback domains as Universal Links and verified App Links
+ */
+export const withUniversalLinks: ConfigPlugin<{
+  universalLinks: ScalekitUniversalLinksOptions;
+  callbackPath: string;
+}> = (config, { universalLinks, callbackPath }) => {
+  const { domains, wellKnownDir } = universalLinks;
+  const pathPrefix = normalizePathPrefix(universalLinks.pathPrefix ?? callbackPath);
+
+  if (!domains.length) {
+    throw new Error('[Scalekit] universalLinks.domains must list at least one domain.');
+  }
+
+  // iOS: associated domains entitlement
+  config = withEntitlementsPlist(config, (config) => {
+    const entitlements = config.modResults;
+    const associatedDomains = (entitlements[ASSOCIATED_DOMAINS_KEY] as string[] | undefined) ?? [];
+
+    for (const domain of domains) {
+      const entry = `applinks:${domain}`;
+      if (!associatedDomains.includes(entry)) {
+        associatedDomains.push(entry);
+      }
+    }
+    entitlements[ASSOCIATED_DOMAINS_KEY] = associatedDomains;
+
+    return config;
+  });
+
+  // Android: auto-verified HTTPS intent filters
+  config = withAndroidManifest(config, (config) => {
+    const mainActivity = findMainActivity(config.modResults);
+
+    if (!mainActivity) {
+      WarningAggregator.addWarningAndroid(
+        'scalekit',
+        'MainActivity not found; App Links intent filters were not added.'
+      );
+      return config;
+    }
+
+    mainActivity['intent-filter'] = mainActivity['intent-filter'] ?? [];
+
+    for (const domain of domains) {
+      const hasAppLinkFilter = mainActivity['intent-filter'].some((filter) =>
+        filter.data?.some(
+          (data) =>
+            data.$?.['android:scheme'] === 'https' &&
+            data.$?.['android:host'] === domain &&
+            data.$?.['android:pathPrefix'] === pathPrefix
+        )
+      );
+
+      if (!hasAppLinkFilter) {
+        const appLinkFilter: ManifestIntentFilter = {
+          $: { 'android:autoVerify': 'true' },
+          action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+          category: [
+            { $: { 'android:name': 'android.intent.category.DEFAULT' } },
+            { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+          ],
+          data: [
+            {
+              $: {
+                'android:scheme': 'https',
+                'android:host': domain,
+                'android:pathPrefix': pathPrefix,
+              },
+            },
+          ],
+        };
+        mainActivity['intent-filter'].push(appLinkFilter);
+      }
+    }
+
+    return config;
+  });
+
+  if (!wellKnownDir) {
+    return config;
+  }
+
+  // Files to host at https://<domain>/.well-known/
+  config = withDangerousMod(config, [
+    'ios',
+    (config) => {
+      const appleTeamId = universalLinks.appleTeamId ?? config.ios?.appleTeamId;
+      const bundleIdentifier = config.ios?.bundleIdentifier;
+
+      if (!appleTeamId || !bundleIdentifier) {
+        WarningAggregator.addWarningIOS(
+          'scalekit',
+          'apple-app-site-association was not generated: set universalLinks.appleTeamId (or ios.appleTeamId) and ios.bundleIdentifier.'
+        );
+        return config;
+      }
+
+      writeWellKnownFile(
+        config.modRequest.projectRoot,
+        wellKnownDir,
+        'apple-app-site-association',
+        createAppleAppSiteAssociation({ appleTeamId, bundleIdentifier, pathPrefix })
+      );
+      return config;
+    },
+  ]);
+
+  config = withDangerousMod(config, [
+    'android',
+    (config) => {
+      const packageName = config.android?.package;
+      const sha256CertFingerprints = universalLinks.sha256CertFingerprints ?? [];
+
+      if (!packageName || !sha256CertFingerprints.length) {
+        WarningAggregator.addWarningAndroid(
+          'scalekit',
+          'assetlinks.json was not generated: set android.package and universalLinks.sha256CertFingerprints.'
+        );
+        return config;
+      }
+
+      writeWellKnownFile(
+        config.modRequest.projectRoot,
+        wellKnownDir,
+        'assetlinks.json',
+        createAssetLinks({ packageName, sha256CertFingerprints })
+      );
+      return config;
+    },
+  ]);
+
+  return config;
+};
@@ -4,12 +4,20 @@
  * React Context Provider for Scalekit authentication
  */
 
-import React, { createContext, useEffect, useState, useCallback, useMemo } from 'react';
-import { ScalekitAuth } from './services/ScalekitAuth';
+import React, {
+  createContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { ScalekitClient, createScalekitClient } from './services/ScalekitClient';
+import { getAccessTokenClaims, getClaimList } from './utils/claims';
 import {
+  ScalekitAccessTokenClaims,
+  ScalekitAuthEventOf,
   ScalekitConfig,
-  ScalekitAuthState,
-  ScalekitLoginOptions,
   UseScalekitReturn,
 } from './types';
 
@@ -18,12 +26,36 @@ import {
  */
 const ScalekitContext = createContext<UseScalekitReturn | undefined>(undefined);
 
+/**
+ * Context exposing the underlying client to SDK hooks
+ */
+const ScalekitClientContext = createContext<ScalekitClient | undefined>(undefined);
+
+/**
+ * Auth lifecycle callbacks accepted by ScalekitProvider
+ */
+export interface ScalekitProviderCallbacks {
+  /** Called when a session becomes active (interactive login, restored on startup, or another tab) */
+  onLogin?: (event: ScalekitAuthEventOf<'login'>) => void;
+  /** Called when the session ends, including expiry */
+  onLogout?: (event: ScalekitAuthEventOf<'logout'>) => void;
+  /** Called after tokens were refreshed */
+  onTokenRefreshed?: (event: ScalekitAuthEventOf<'token_refreshed'>) => void;
+  /** Called when the session could not be refreshed and the user was signed out */
+  onSessionExpired?: (event: ScalekitAuthEventOf<'session_expired'>) => void;
+  /** Called when login, logout, initialization or a refresh fails */
+  onError?: (event: ScalekitAuthEventOf<'error'>) => void;
+}
+
 /**
  * Scalekit Provider Props
+ *
+ * Pass either the configuration or an existing client created with createScalekitClient.
  */
-export interface ScalekitProviderProps extends ScalekitConfig {
+export type ScalekitProviderProps = {
   children: React.ReactNode;
-}
+} & ScalekitProviderCallbacks &
+  ((ScalekitConfig & { client?: undefined }) | { client: ScalekitClient });
 
 /**
  * Scalekit Provider Component
@@ -48,208 +80,160 @@ export interface ScalekitProviderProps extends ScalekitConfig {
  * >
  *   <App />
  * </ScalekitProvider>
+ *
+ * // Or share a client with code outside React
+ * <ScalekitProvider client={scalekit}>
+ *   <App />
+ * </ScalekitProvider>
  * ```
  */
 export const ScalekitProvider: React.FC<ScalekitProviderProps> = ({
   children,
-  envUrl,
-  clientId,
-  clientSecret,
-  redirectUri,
-  scopes,
+  onLogin,
+  onLogout,
+  onTokenRefreshed,
+  onSessionExpired,
+  onError,
+  ...props
 }) => {
-  // Initialize auth service
-  const authService = useMemo(
-    () =>
-      new ScalekitAuth({
-        envUrl,
-        clientId,
-        clientSecret,
-        redirectUri,
-        scopes,
-      }),
-    [envUrl, clientId, clientSecret, redirectUri, scopes]
-  );
+  const {
+    client: externalClient,
+    envUrl,
+    clientId,
+    clientSecret,
+    redirectUri,
+    redirectPath,
+    scopes,
+    discovery,
+    discoveryTtl,
+    clockSkew,
+    storage,
+    webLoginMode,
+    audienceTokenGrant,
+    usePar,
+    dpop,
+  } = props as Partial<ScalekitConfig> & { client?: ScalekitClient };
 
-  // Auth state
-  const [authState, setAuthState] = useState<ScalekitAuthState>({
-    isLoading: true,
-    isAuthenticated: false,
-    user: null,
-    tokens: null,
-    error: null,
-  });
+  // Arrays and objects passed inline get a new identity on every render; compare them by value
+  const scopesKey = scopes?.join(' ');
+  const discoveryKey = discovery ? JSON.stringify(discovery) : undefined;
 
-  /**
-   * Initialize auth state from stored credentials
-   */
-  useEffect(() => {
-    const initAuth = async () => {
-      try {
-        const storedTokens = await authService.getStoredTokens();
-        const storedUser = await authService.getStoredUserInfo();
-
-        if (storedTokens && storedUser && !authService.areTokensExpired(storedTokens)) {
-          // Valid session exists
-          setAuthState({
-            isLoading: false,
-            isAuthenticated: true,
-            user: storedUser,
-            tokens: storedTokens,
-            error: null,
-          });
-        } else {
-          // No valid session
-          if (storedTokens) {
-            // Clean up expired tokens
-            await authService.logout();
-          }
-          setAuthState({
-            isLoading: false,
-            isAuthenticated: false,
-            user: null,
-            tokens: null,
-            error: null,
-          });
-        }
-      } catch (error) {
-        console.error('[Scalekit] Error initializing auth:', error);
-        setAuthState({
-          isLoading: false,
-          isAuthenticated: false,
-          user: null,
-          tokens: null,
-          error: 'Failed to initialize authentication',
-        });
-      }
-    };
+  // Create a client from props unless one was provided. Recreating it would reset the
+  // auth state and drop a login in progress, so it only changes with the config values;
+  // `storage` is read when the client is created (an inline instance is fine).
+  const ownedClient = useMemo(
+    () =>
+      externalClient
+        ? null
+        : createScalekitClient({
+            envUrl: envUrl!,
+            clientId: clientId!,
+            clientSecret,
+            redirectUri,
+            redirectPath,
+            scopes,
+            discovery,
+            discoveryTtl,
+            clockSkew,
+            storage,
+            webLoginMode,
+            audienceTokenGrant,
+            usePar,
+            dpop,
+          }),
+    [
+      externalClient,
+      envUrl,
+      clientId,
+      clientSecret,
+      redirectUri,
+      redirectPath,
+      scopesKey,
+      discoveryKey,
+      discoveryTtl,
+      clockSkew,
+      webLoginMode,
+      audienceTokenGrant,
+      usePar,
+      dpop,
+    ]
+  );
+  const client = externalClient ?? ownedClient!;
 
-    initAuth();
-  }, [authService]);
+  // Latest callbacks, so inline handlers don't resubscribe on every render
+  const callbacksRef = useRef<ScalekitProviderCallbacks>({});
+  callbacksRef.current = { onLogin, onLogout, onTokenRefreshed, onSessionExpired, onError };
 
   /**
-   * Handle login flow
+   * Forward lifecycle events to the callback props
    */
-  const login = useCallback(
-    async (options?: ScalekitLoginOptions) => {
-      try {
-        setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-        // Start OAuth flow with PKCE
-        const result = await authService.login(options);
-
-        if (result.type === 'success' && result.url) {
-          // Parse the URL to extract the authorization code
-          const url = new URL(result.url);
-          const code = url.searchParams.get('code');
-
-          if (!code) {
-            throw new Error('No authorization code received');
-          }
-
-          // Exchange authorization code for tokens
-          const tokens = await authService.exchangeCodeForTokens(code);
-
-          // Get user information from id_token
-          if (!tokens.idToken) {
-            throw new Error('No id_token received from Scalekit');
-          }
-          const user = await authService.getUserInfo(tokens.idToken);
-
-          // Update state
-          setAuthState({
-            isLoading: false,
-            isAuthenticated: true,
-            user,
-            tokens,
-            error: null,
-          });
-        } else if (result.type === 'dismiss' || result.type === 'cancel') {
-          // User cancelled
-          setAuthState((prev) => ({
-            ...prev,
-            isLoading: false,
-            error: null,
-          }));
-        } else {
-          throw new Error('Authentication was not successful');
+  useEffect(
+    () =>
+      client.onAuthStateChange((event) => {
+        const callbacks = callbacksRef.current;
+        switch (event.type) {
+          case 'login':
+            return callbacks.onLogin?.(event);
+          case 'logout':
+            return callbacks.onLogout?.(event);
+          case 'token_refreshed':
+            return callbacks.onTokenRefreshed?.(event);
+          case 'session_expired':
+            return callbacks.onSessionExpired?.(event);
+          case 'error':
+            return callbacks.onError?.(event);
         }
-      } catch (error) {
-        console.error('[Scalekit] Login error:', error);
-        setAuthState({
-          isLoading: false,
-          isAuthenticated: false,
-          user: null,
-          tokens: null,
-          error: error instanceof Error ? error.message : 'Login failed',
-        });
-      }
-    },
-    [authService]
+      }),
+    [client]
   );
 
   /**
-   * Handle logout
-   */
-  const logout = useCallback(async () => {
-    try {
-      setAuthState((prev) => ({ ...prev, isLoading: true }));
-      await authService.logout();
-      setAuthState({
-        isLoading: false,
-        isAuthenticated: false,
-        user: null,
-        tokens: null,
-        error: null,
-      });
-    } catch (error) {
-      console.error('[Scalekit] Logout error:', error);
-      setAuthState((prev) => ({
-        ...prev,
-        isLoading: false,
-        error: 'Failed to logout',
-      }));
-    }
-  }, [authService]);
-
-  /**
-   * Refresh user information
+   * Load the stored session; stop background work for clients this provider created
    */
-  const refreshUser = useCallback(async () => {
-    if (!authState.tokens || !authState.tokens.idToken) {
-      throw new Error('No active session');
-    }
+  useEffect(() => {
+    client.initialize();
+    return ownedClient ? () => ownedClient.destroy() : undefined;
+  }, [client, ownedClient]);
 
-    try {
-      const user = await authService.getUserInfo(authState.tokens.idToken);
-      setAuthState((prev) => ({ ...prev, user }));
-    } catch (error) {
-      console.error('[Scalekit] Error refreshing user info:', error);
-      throw error;
-    }
-  }, [authService, authState.tokens]);
+  // Auth state
+  const authState = useSyncExternalStore(client.subscribe, client.getState, client.getState);
 
-  /**
-   * Get current access token
-   */
-  const getAccessToken = useCallback(async (): Promise<string | null> => {
-    const tokens = await authService.getStoredTokens();
-    if (!tokens || authService.areTokensExpired(tokens)) {
-      return null;
-    }
-    return tokens.accessToken;
-  }, [authService]);
+  // Roles and permissions granted by the current access token
+  const { roles, permissions } = useMemo(() => {
+    const claims = getAccessTokenClaims(authState.tokens);
+    return {
+      roles: getClaimList(claims, 'roles'),
+      permissions: getClaimList(claims, 'permissions'),
+    };
+  }, [authState.tokens]);
 
   // Context value
-  const value: UseScalekitReturn = {
-    ...authState,
-    login,
-    logout,
-    refreshUser,
-    getAccessToken,
-  };
+  const value = useMemo<UseScalekitReturn>(
+    () => ({
+      ...authState,
+      login: (options) => client.login(options),
+      loginWithDeviceCode: (options) => client.loginWithDeviceCode(options),
+      cancelDeviceLogin: () => client.cancelDeviceLogin(),
+      reauthenticate: (options) => client.reauthenticate(options),
+      logout: (options) => client.logout(options),
+      handleRedirect: (url) => client.handleRedirect(url),
+      refreshUser: () => client.refreshUser(),
+      refreshTokens: () => client.refreshTokens(),
+      switchOrganization: (organizationId) => client.switchOrganization(organizationId),
+      getAccessToken: (options) => client.getAccessToken(options),
+      hasRole: (role) => roles.includes(role),
+      hasPermission: (permission) => permissions.includes(permission),
+      hasAnyPermission: (required) => required.some((permission) => permissions.includes(permission)),
+      onAuthStateChange: client.onAuthStateChange,
+    }),
+    [authState, client, roles, permissions]
+  );
 
-  return <ScalekitContext.Provider value={value}>{children}</ScalekitContext.Provider>;
+  return (
+    <ScalekitClientContext.Provider value={client}>
+      <ScalekitContext.Provider value={value}>{children}</ScalekitContext.Provider>
+    </ScalekitClientContext.Provider>
+  );
 };
 
 /**
@@ -273,3 +257,105 @@ export const useScalekit = (): UseScalekitReturn => {
   }
   return context;
 };
+
+/**
+ * Hook to get the ScalekitClient behind the nearest ScalekitProvider
+ */
+export const useScalekitClient = (): ScalekitClient => {
+  const client = React.useContext(ScalekitClientContext);
+  if (!client) {
+    throw new Error('useScalekitClient must be used within a ScalekitProvider');
+  }
+  return client;
+};
+
+/**
+ * Hook to read the claims of the current access token
+ *
+ * Returns null when signed out or when the access token is not a JWT.
+ * Re-evaluates whenever the tokens are refreshed.
+ *
+ * @example
+ * ```tsx
+ * const claims = useAccessTokenClaims();
+ * return <Text>Organization: {claims?.oid}</Text>;
+ * ```
+ */
+export const useAccessTokenClaims = <
+  T extends ScalekitAccessTokenClaims = ScalekitAccessTokenClaims,
+>(): T | null => {
+  const { tokens } = useScalekit();
+  return useMemo(() => getAccessTokenClaims<T>(tokens), [tokens]);
+};
+
+/**
+ * Recent-authentication status returned by useRequireRecentAuth
+ */
+export interface UseRequireRecentAuthReturn {
+  /** Whether the user must re-authenticate before the action (also true when signed out) */
+  isRequired: boolean;
+  /** When the user last authenticated (seconds since epoch), from the ID token's auth_time */
+  authTime: number | null;
+  /** Re-authenticate with the hook's maxAge */
+  reauthenticate: () => Promise<void>;
+}
+
+/**
+ * Hook telling whether the user authenticated within the last `maxAge` seconds
+ *
+ * Based on the `auth_time` claim of the ID token; `isRequired` flips to true
+ * once the authentication becomes too old.
+ *
+ * @example
+ * ```tsx
+ * const { isRequired, reauthenticate } = useRequireRecentAuth(300);
+ *
+ * const savePayoutDetails = async () => {
+ *   if (isRequired) await reauthenticate();
+ *   await api.updatePayout(details);
+ * };
+ * ```
+ */
+export const useRequireRecentAuth = (maxAge: number): UseRequireRecentAuthReturn => {
+  const { user, reauthenticate } = useScalekit();
+  const authTime = typeof user?.auth_time === 'number' ? user.auth_time : null;
+  const staleAt = authTime === null ? null : (authTime + maxAge) * 1000;
+  const [now, setNow] = useState(Date.now);
+
+  // Re-render when the authentication becomes too old
+  useEffect(() => {
+    if (staleAt === null) {
+      return;
+    }
+    const remaining = staleAt - Date.now();
+    if (remaining <= 0) {
+      setNow(Date.now());
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), remaining);
+    return () => clearTimeout(timer);
+  }, [staleAt]);
+
+  return useMemo(
+    () => ({
+      isRequired: staleAt === null || now >= staleAt,
+      authTime,
+      reauthenticate: () => reauthenticate({ maxAge }),
+    }),
+    [staleAt, now, authTime, reauthenticate, maxAge]
+  );
+};
+
+/**
+ * Hook returning a fetch function that sends the user's access token
+ *
+ * On a 401 `invalid_token` response the token is refreshed and the request
+ * retried once; an unrecoverable session signs the user out.
+ *
+ * @example
+ * ```tsx
+ * const authFetch = useAuthenticatedFetch();
+ * const response = await authFetch('https://api.example.com/me');
+ * ```
+ */
+export const useAuthenticatedFetch = (): ScalekitClient['fetch'] => useScalekitClient().fetch;
@@ -0,0 +1,29 @@
+/**
+ * @scalekit-sdk/expo - Apollo Adapter
+ *
+ * fetch implementation for Apollo's HttpLink that authenticates every operation
+ */
+
+import { ScalekitClient } from '../services/ScalekitClient';
+
+/**
+ * Create a fetch function for Apollo's HttpLink backed by client.fetch
+ *
+ * Operations carry the Scalekit access token and are retried once after a
+ * refresh when the API responds with `invalid_token`.
+ *
+ * @example
+ * ```ts
+ * const apollo = new ApolloClient({
+ *   link: new HttpLink({
+ *     uri: 'https://api.example.com/graphql',
+ *     fetch: createScalekitApolloFetch(scalekit),
+ *   }),
+ *   cache: new InMemoryCache(),
+ * });
+ * ```
+ */
+export const createScalekitApolloFetch =
+  (client: ScalekitClient) =>
+  (uri: string, options?: RequestInit): Promise<Response> =>
+    client.fetch(uri, options);
@@ -0,0 +1,208 @@
+/**
+ * @scalekit-sdk/expo - axios Adapter
+ *
+ * Attaches the Scalekit access token (and DPoP proof) to axios requests and retries
+ * once on `invalid_token` or `use_dpop_nonce`
+ */
+
+import { ScalekitClient } from '../services/ScalekitClient';
+import { isDPoPNonceChallenge, isInvalidTokenChallenge } from '../utils/http';
+
+/**
+ * Subset of an AxiosHeaders instance used by the adapter
+ */
+interface AxiosHeadersInstanceLike {
+  get(name: string): unknown;
+  set(name: string, value: string): void;
+}
+
+/**
+ * Headers of an axios request or response: AxiosHeaders or a plain object
+ */
+type AxiosHeadersLike = Record<string, unknown> | AxiosHeadersInstanceLike;
+
+/**
+ * Subset of an axios request config used by the adapter
+ */
+interface AxiosRequestConfigLike {
+  url?: string;
+  baseURL?: string;
+  method?: string;
+  headers?: AxiosHeadersLike;
+  _scalekitRetried?: boolean;
+  _scalekitDPoPRetried?: boolean;
+}
+
+/**
+ * Subset of an axios response used by the adapter
+ */
+interface AxiosResponseLike {
+  status: number;
+  headers?: AxiosHeadersLike;
+  config?: AxiosRequestConfigLike;
+}
+
+/**
+ * Subset of an axios instance used by the adapter (avoids a hard dependency on axios)
+ *
+ * Generic in the config and response types so axios' own types are inferred.
+ */
+export interface AxiosInstanceLike<
+  Config extends AxiosRequestConfigLike = AxiosRequestConfigLike,
+  Response extends AxiosResponseLike = AxiosResponseLike,
+> {
+  interceptors: {
+    request: {
+      use: (onFulfilled: (config: Config) => Promise<Config>) => number;
+      eject(id: number): void;
+    };
+    response: {
+      use: (
+        onFulfilled: (response: Response) => Response,
+        onRejected: (error: unknown) => Promise<unknown>
+      ) => number;
+      eject(id: number): void;
+    };
+  };
+  request(config: AxiosRequestConfigLike): Promise<unknown>;
+}
+
+/**
+ * Whether headers are an AxiosHeaders instance rather than a plain object
+ */
+const isAxiosHeaders = (headers: AxiosHeadersLike): headers is AxiosHeadersInstanceLike =>
+  typeof headers.get === 'function' && typeof headers.set === 'function';
+
+/**
+ * Error axios rejects with when a request was sent
+ */
+const isAxiosErrorLike = (
+  error: unknown
+): error is { config?: AxiosRequestConfigLike; response?: AxiosResponseLike } =>
+  typeof error === 'object' && error !== null && 'config' in error;
+
+/**
+ * Set a header on either AxiosHeaders or a plain headers object
+ */
+const setHeader = (config: AxiosRequestConfigLike, name: string, value: string): void => {
+  config.headers = config.headers ?? {};
+  if (isAxiosHeaders(config.headers)) {
+    config.headers.set(name, value);
+  } else {
+    config.headers[name] = value;
+  }
+};
+
+/**
+ * Read a header from either AxiosHeaders or a plain headers object
+ */
+const getHeader = (headers: AxiosHeadersLike | undefined, name: string): string | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+  const value = isAxiosHeaders(headers)
+    ? headers.get(name)
+    : headers[name] ?? headers[name.toLowerCase()];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Absolute request URL, which DPoP proofs are bound to
+ */
+const getRequestUrl = (config: AxiosRequestConfigLike): string => {
+  const url = config.url ?? '';
+  if (!config.baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  return url ? `${config.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}` : config.baseURL;
+};
+
+/**
+ * Attach Scalekit authentication to an axios instance
+ *
+ * @returns A function that removes the interceptors again
+ *
+ * @example
+ * ```ts
+ * const api = axios.create({ baseURL: 'https://api.example.com' });
+ * attachScalekitToAxios(api, scalekit);
+ * ```
+ */
+export const attachScalekitToAxios = <
+  Config extends AxiosRequestConfigLike,
+  Response extends AxiosResponseLike,
+>(
+  axiosInstance: AxiosInstanceLike<Config, Response>,
+  client: ScalekitClient
+): (() => void) => {
+  const requestInterceptor = axiosInstance.interceptors.request.use(
+    async (config) => {
+      const authorization = await client.getAuthorizationHeader();
+      if (authorization) {
+        setHeader(config, 'Authorization', authorization);
+        const proof = await client.getDPoPHeader(
+          config.method ?? 'GET',
+          getRequestUrl(config),
+          authorization
+        );
+        if (proof) {
+          setHeader(config, 'DPoP', proof);
+        }
+      }
+      return config;
+    }
+  );
+
+  const responseInterceptor = axiosInstance.interceptors.response.use(
+    (response) => {
+      if (response.config) {
+        client.updateDPoPNonce(
+          getRequestUrl(response.config),
+          getHeader(response.headers, 'DPoP-Nonce')
+        );
+      }
+      return response;
+    },
+    async (error) => {
+      const config = isAxiosErrorLike(error) ? error.config : undefined;
+      const response = isAxiosErrorLike(error) ? error.response : undefined;
+      const rejectedAuthorization = getHeader(config?.headers, 'Authorization');
+
+      // Retry once with the DPoP nonce the API asked for; the request interceptor signs a new proof
+      if (
+        config &&
+        response &&
+        client.updateDPoPNonce(getRequestUrl(config), getHeader(response.headers, 'DPoP-Nonce')) &&
+        !config._scalekitDPoPRetried &&
+        isDPoPNonceChallenge(response.status, getHeader(response.headers, 'WWW-Authenticate'))
+      ) {
+        config._scalekitDPoPRetried = true;
+        return axiosInstance.request(config);
+      }
+
+      if (
+        !config ||
+        !response ||
+        config._scalekitRetried ||
+        !rejectedAuthorization ||
+        !isInvalidTokenChallenge(response.status, getHeader(response.headers, 'WWW-Authenticate'))
+      ) {
+        throw error;
+      }
+
+      const retryAuthorization = await client.handleInvalidToken(rejectedAuthorization);
+      if (!retryAuthorization) {
+        throw error;
+      }
+
+      config._scalekitRetried = true;
+      setHeader(config, 'Authorization', retryAuthorization);
+      return axiosInstance.request(config);
+    }
+  );
+
+  return () => {
+    axiosInstance.interceptors.request.eject(requestInterceptor);
+    axiosInstance.interceptors.response.eject(responseInterceptor);
+  };
+};
@@ -0,0 +1,107 @@
+/**
+ * @scalekit-sdk/expo - expo-router Adapter
+ *
+ * Redirects between protected routes and the sign-in route, preserving the requested path
+ */
+
+import { useEffect } from 'react';
+import { useScalekit, useScalekitClient } from '../ScalekitProvider';
+
+/**
+ * Subset of the expo-router router used by the adapter (avoids a hard dependency on expo-router)
+ */
+export interface ExpoRouterLike {
+  replace(href: string): void;
+}
+
+/**
+ * Options for useProtectedRoute
+ */
+export interface UseProtectedRouteOptions {
+  /** Router from expo-router's `useRouter()` */
+  router: ExpoRouterLike;
+  /** Current path from expo-router's `usePathname()` */
+  pathname: string;
+  /** Route unauthenticated users are sent to, e.g. `/sign-in` */
+  signInRoute: string;
+  /** Other routes that do not require a session (the sign-in route is always public) */
+  publicRoutes?: string[];
+  /** Where to go after login when no path was requested (default: `/`) */
+  homeRoute?: string;
+}
+
+/**
+ * Guard expo-router routes with the Scalekit session
+ *
+ * Unauthenticated users on a protected route are sent to `signInRoute` and the
+ * requested path is stored. Once they are signed in on the sign-in route (after
+ * login() completes, including web full-page redirects) they are sent back to it.
+ * Call it from the root layout.
+ *
+ * @example
+ * ```tsx
+ * // app/_layout.tsx
+ * function RootNavigator() {
+ *   useProtectedRoute({
+ *     router: useRouter(),
+ *     pathname: usePathname(),
+ *     signInRoute: '/sign-in',
+ *   });
+ *   return <Slot />;
+ * }
+ * ```
+ */
+export const useProtectedRoute = ({
+  router,
+  pathname,
+  signInRoute,
+  publicRoutes = [],
+  homeRoute = '/',
+}: UseProtectedRouteOptions): void => {
+  const client = useScalekitClient();
+  const { isAuthenticated, isLoading } = useScalekit();
+  const isSignInRoute = pathname === signInRoute;
+  const isPublicRoute = isSignInRoute || publicRoutes.includes(pathname);
+
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+
+    let cancelled = false;
+
+    if (!isAuthenticated && !isPublicRoute) {
+      client.auth
+        .setReturnTo(pathname)
+        .catch(() => undefined)
+        .then(() => {
+          if (!cancelled) {
+            router.replace(signInRoute);
+          }
+        });
+    } else if (isAuthenticated && isSignInRoute) {
+      client.auth
+        .consumeReturnTo()
+        .catch(() => null)
+        .then((returnTo) => {
+          if (!cancelled) {
+            router.replace(returnTo ?? homeRoute);
+          }
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    client,
+    router,
+    pathname,
+    signInRoute,
+    homeRoute,
+    isAuthenticated,
+    isLoading,
+    isPublicRoute,
+    isSignInRoute,
+  ]);
+};
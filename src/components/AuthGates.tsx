@@ -0,0 +1,60 @@
+/**
+ * @scalekit-sdk/expo - Auth Gate Components
+ *
+ * Render children depending on whether the user is signed in
+ */
+
+import React from 'react';
+import { useScalekit } from '../ScalekitProvider';
+
+/**
+ * Auth gate Props
+ */
+export interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Render children only when the user is signed in
+ *
+ * @example
+ * ```tsx
+ * <SignedIn>
+ *   <ProfileButton />
+ * </SignedIn>
+ * ```
+ */
+export const SignedIn: React.FC<AuthGateProps> = ({ children }) => {
+  const { isAuthenticated, isLoading } = useScalekit();
+  return <>{!isLoading && isAuthenticated ? children : null}</>;
+};
+
+/**
+ * Render children only when the user is signed out
+ *
+ * @example
+ * ```tsx
+ * <SignedOut>
+ *   <Button title="Login" onPress={() => login()} />
+ * </SignedOut>
+ * ```
+ */
+export const SignedOut: React.FC<AuthGateProps> = ({ children }) => {
+  const { isAuthenticated, isLoading } = useScalekit();
+  return <>{!isLoading && !isAuthenticated ? children : null}</>;
+};
+
+/**
+ * Render children while the session is loading or a login is in progress
+ *
+ * @example
+ * ```tsx
+ * <AuthLoading>
+ *   <ActivityIndicator />
+ * </AuthLoading>
+ * ```
+ */
+export const AuthLoading: React.FC<AuthGateProps> = ({ children }) => {
+  const { isLoading } = useScalekit();
+  return <>{isLoading ? children : null}</>;
+};
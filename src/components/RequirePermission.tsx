@@ -0,0 +1,42 @@
+/**
+ * @scalekit-sdk/expo - RequirePermission Component
+ *
+ * Renders its children only when the access token grants a permission
+ */
+
+import React from 'react';
+import { useScalekit } from '../ScalekitProvider';
+
+/**
+ * RequirePermission Props
+ */
+export interface RequirePermissionProps {
+  /** Permission required to render the children; with an array, any one of them is enough */
+  permission: string | string[];
+  /** Rendered while loading or when the permission is missing (default: nothing) */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Render children only when the current access token grants the permission
+ *
+ * Re-evaluates whenever the tokens change, e.g. after a refresh or organization switch.
+ *
+ * @example
+ * ```tsx
+ * <RequirePermission permission="invoices:write" fallback={<Text>Read only</Text>}>
+ *   <Button title="New invoice" onPress={createInvoice} />
+ * </RequirePermission>
+ * ```
+ */
+export const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  fallback = null,
+  children,
+}) => {
+  const { hasAnyPermission } = useScalekit();
+  const permissions = Array.isArray(permission) ? permission : [permission];
+
+  return <>{hasAnyPermission(permissions) ? children : fallback}</>;
+};
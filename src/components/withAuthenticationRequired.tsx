@@ -0,0 +1,73 @@
+/**
+ * @scalekit-sdk/expo - withAuthenticationRequired HOC
+ *
+ * Starts a login when an unauthenticated user renders a protected component
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { useScalekit } from '../ScalekitProvider';
+import { ScalekitError } from '../errors';
+import { ScalekitLoginOptions } from '../types';
+
+/**
+ * Options for withAuthenticationRequired
+ */
+export interface WithAuthenticationRequiredOptions {
+  /** Rendered while the session loads and the login is in progress (default: nothing) */
+  onRedirecting?: () => React.ReactNode;
+  /**
+   * Rendered when the automatic login did not sign the user in, e.g. because it was cancelled
+   * (default: onRedirecting)
+   */
+  fallback?: (props: { login: () => Promise<void>; error: ScalekitError | null }) => React.ReactNode;
+  /** Options passed to login() */
+  loginOptions?: ScalekitLoginOptions;
+}
+
+/**
+ * Wrap a component so it only renders for signed-in users
+ *
+ * An unauthenticated user triggers login() once per mount; if that does not
+ * sign them in, `fallback` is rendered so the user can retry.
+ *
+ * @example
+ * ```tsx
+ * export default withAuthenticationRequired(SettingsScreen, {
+ *   onRedirecting: () => <ActivityIndicator />,
+ *   fallback: ({ login }) => <Button title="Login" onPress={login} />,
+ * });
+ * ```
+ */
+export const withAuthenticationRequired = <P extends object>(
+  Component: React.ComponentType<P>,
+  options: WithAuthenticationRequiredOptions = {}
+): React.FC<P> => {
+  const { onRedirecting = () => null, fallback, loginOptions } = options;
+
+  const WithAuthenticationRequired: React.FC<P> = (props) => {
+    const { isAuthenticated, isLoading, error, login } = useScalekit();
+    const loginAttempted = useRef(false);
+
+    useEffect(() => {
+      if (isLoading || isAuthenticated || loginAttempted.current) {
+        return;
+      }
+      loginAttempted.current = true;
+      login(loginOptions);
+    }, [isLoading, isAuthenticated, login]);
+
+    if (isAuthenticated) {
+      return <Component {...props} />;
+    }
+    if (isLoading || !loginAttempted.current || !fallback) {
+      return <>{onRedirecting()}</>;
+    }
+    return <>{fallback({ login: () => login(loginOptions), error })}</>;
+  };
+
+  WithAuthenticationRequired.displayName = `withAuthenticationRequired(${
+    Component.displayName || Component.name || 'Component'
+  })`;
+
+  return WithAuthenticationRequired;
+};
@@ -0,0 +1,218 @@
+/**
+ * @scalekit-sdk/expo - Error Types
+ *
+ * Errors thrown by the SDK, each with a stable machine-readable code
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export type ScalekitErrorCode =
+  /** The user dismissed or cancelled the browser session */
+  | 'user_cancelled'
+  /** The authorization server returned an error on the redirect URL */
+  | 'authorization_failed'
+  /** The device code expired before the user approved the login */
+  | 'device_code_expired'
+  /** The redirect's state did not match the pending login */
+  | 'state_mismatch'
+  /** The authorization code or refresh token was rejected */
+  | 'invalid_grant'
+  /** The token endpoint rejected a request for another reason */
+  | 'token_request_failed'
+  /** The ID token failed signature or claim verification */
+  | 'invalid_id_token'
+  /** The user did not authenticate recently or strongly enough (auth_time / acr) */
+  | 'insufficient_authentication'
+  /** The session expired and could not be refreshed */
+  | 'token_expired'
+  /** A request could not reach the server */
+  | 'network_error'
+  /** Reading or writing secure storage failed */
+  | 'storage_failure'
+  /** The SDK or the Scalekit application is misconfigured */
+  | 'configuration_error'
+  /** Any other failure */
+  | 'unknown_error';
+
+/**
+ * Additional error details
+ */
+export interface ScalekitErrorDetails {
+  /** OAuth `error` value returned by the server */
+  oauthError?: string;
+  /** OAuth `error_description` value returned by the server */
+  errorDescription?: string;
+  /** HTTP status of the failed response */
+  status?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class ScalekitError extends Error {
+  readonly code: ScalekitErrorCode;
+  readonly oauthError?: string;
+  readonly errorDescription?: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: ScalekitErrorCode, message: string, details: ScalekitErrorDetails = {}) {
+    super(message);
+    this.name = 'ScalekitError';
+    this.code = code;
+    this.oauthError = details.oauthError;
+    this.errorDescription = details.errorDescription;
+    this.status = details.status;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The user dismissed or cancelled the browser session
+ */
+export class UserCancelledError extends ScalekitError {
+  constructor() {
+    super('user_cancelled', 'Authentication was cancelled');
+    this.name = 'UserCancelledError';
+  }
+}
+
+/**
+ * The authorization server returned an error on the redirect URL
+ */
+export class AuthorizationResponseError extends ScalekitError {
+  constructor(oauthError: string, errorDescription?: string) {
+    super(
+      oauthError === 'access_denied' ? 'user_cancelled' : 'authorization_failed',
+      errorDescription ? `${oauthError}: ${errorDescription}` : oauthError,
+      { oauthError, errorDescription }
+    );
+    this.name = 'AuthorizationResponseError';
+  }
+}
+
+/**
+ * The redirect's state does not match the pending login
+ */
+export class StateMismatchError extends ScalekitError {
+  constructor() {
+    super(
+      'state_mismatch',
+      'Authorization response state does not match. Please restart the login flow.'
+    );
+    this.name = 'StateMismatchError';
+  }
+}
+
+/**
+ * The device code expired before the user approved the login
+ */
+export class DeviceCodeExpiredError extends ScalekitError {
+  constructor() {
+    super('device_code_expired', 'The device code expired. Please restart the login flow.');
+    this.name = 'DeviceCodeExpiredError';
+  }
+}
+
+/**
+ * The token endpoint rejected a request
+ */
+export class TokenEndpointError extends ScalekitError {
+  constructor(message: string, details: ScalekitErrorDetails) {
+    super(tokenErrorCode(details.oauthError), message, details);
+    this.name = 'TokenEndpointError';
+  }
+}
+
+/**
+ * An ID token failed signature or claim verification
+ */
+export class IdTokenVerificationError extends ScalekitError {
+  constructor(message: string) {
+    super('invalid_id_token', message);
+    this.name = 'IdTokenVerificationError';
+  }
+}
+
+/**
+ * The ID token's auth_time or acr does not meet the requested max_age / acr_values
+ */
+export class InsufficientAuthenticationError extends ScalekitError {
+  constructor(message: string) {
+    super('insufficient_authentication', message);
+    this.name = 'InsufficientAuthenticationError';
+  }
+}
+
+/**
+ * The session expired and could not be refreshed
+ */
+export class SessionExpiredError extends ScalekitError {
+  constructor(cause?: unknown) {
+    super('token_expired', 'Session expired. Please log in again.', { cause });
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * A request could not reach the server
+ */
+export class NetworkError extends ScalekitError {
+  constructor(message: string, cause?: unknown) {
+    super('network_error', message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Reading or writing secure storage failed
+ */
+export class StorageError extends ScalekitError {
+  constructor(message: string, cause?: unknown) {
+    super('storage_failure', message, { cause });
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * The SDK or the Scalekit application is misconfigured
+ */
+export class ConfigurationError extends ScalekitError {
+  constructor(message: string, details: ScalekitErrorDetails = {}) {
+    super('configuration_error', message, details);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Map an OAuth token endpoint error to an SDK error code
+ */
+const tokenErrorCode = (oauthError?: string): ScalekitErrorCode => {
+  switch (oauthError) {
+    case 'invalid_grant':
+      return 'invalid_grant';
+    case 'invalid_client':
+    case 'unauthorized_client':
+    case 'unsupported_grant_type':
+      return 'configuration_error';
+    default:
+      return 'token_request_failed';
+  }
+};
+
+/**
+ * Wrap an unknown thrown value in a ScalekitError
+ */
+export const toScalekitError = (error: unknown, fallbackMessage: string): ScalekitError => {
+  if (error instanceof ScalekitError) {
+    return error;
+  }
+  return new ScalekitError(
+    'unknown_error',
+    error instanceof Error ? error.message : fallbackMessage,
+    { cause: error }
+  );
+};
@@ -6,18 +6,89 @@
  */
 
 // Provider and Hook
-export { ScalekitProvider, useScalekit } from './ScalekitProvider';
-export type { ScalekitProviderProps } from './ScalekitProvider';
+export {
+  ScalekitProvider,
+  useScalekit,
+  useScalekitClient,
+  useAuthenticatedFetch,
+  useAccessTokenClaims,
+  useRequireRecentAuth,
+} from './ScalekitProvider';
+export type {
+  ScalekitProviderProps,
+  ScalekitProviderCallbacks,
+  UseRequireRecentAuthReturn,
+} from './ScalekitProvider';
+
+// Components
+export { RequirePermission } from './components/RequirePermission';
+export type { RequirePermissionProps } from './components/RequirePermission';
+export { SignedIn, SignedOut, AuthLoading } from './components/AuthGates';
+export type { AuthGateProps } from './components/AuthGates';
+export { withAuthenticationRequired } from './components/withAuthenticationRequired';
+export type { WithAuthenticationRequiredOptions } from './components/withAuthenticationRequired';
 
 // Types
 export type {
   ScalekitConfig,
+  ScalekitDiscoveryDocument,
+  ScalekitEndpoints,
   ScalekitTokens,
+  ScalekitAccessTokenOptions,
   ScalekitUser,
+  ScalekitOrganization,
+  ScalekitAccessTokenClaims,
   ScalekitAuthState,
   ScalekitLoginOptions,
+  ScalekitPrompt,
+  ScalekitReauthenticateOptions,
+  ScalekitDeviceLoginOptions,
+  ScalekitDeviceAuthorization,
+  ScalekitLogoutOptions,
+  ScalekitLoginReason,
+  ScalekitLogoutReason,
+  ScalekitAuthEvent,
+  ScalekitAuthEventOf,
+  ScalekitAuthEventListener,
+  ScalekitStorage,
   UseScalekitReturn,
 } from './types';
 
+// Storage Adapters
+export { SecureStoreStorage } from './storage/SecureStoreStorage';
+export { MemoryStorage } from './storage/MemoryStorage';
+export { EncryptedStorage } from './storage/EncryptedStorage';
+export type { EncryptedStorageOptions } from './storage/EncryptedStorage';
+export { WebStorage } from './storage/WebStorage';
+export type { WebStorageOptions } from './storage/WebStorage';
+
+// Errors
+export {
+  ScalekitError,
+  UserCancelledError,
+  AuthorizationResponseError,
+  StateMismatchError,
+  DeviceCodeExpiredError,
+  TokenEndpointError,
+  IdTokenVerificationError,
+  InsufficientAuthenticationError,
+  SessionExpiredError,
+  NetworkError,
+  StorageError,
+  ConfigurationError,
+} from './errors';
+export type { ScalekitErrorCode, ScalekitErrorDetails } from './errors';
+
+// Headless Client
+export { ScalekitClient, createScalekitClient } from './services/ScalekitClient';
+export type { ScalekitAuthStateListener } from './services/ScalekitClient';
+
+// HTTP Client and Router Adapters
+export { attachScalekitToAxios } from './adapters/axios';
+export type { AxiosInstanceLike } from './adapters/axios';
+export { createScalekitApolloFetch } from './adapters/apollo';
+export { useProtectedRoute } from './adapters/expoRouter';
+export type { ExpoRouterLike, UseProtectedRouteOptions } from './adapters/expoRouter';
+
 // Auth Service (for advanced usage)
 export { ScalekitAuth } from './services/ScalekitAuth';
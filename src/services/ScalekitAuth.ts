@@ -5,13 +5,40 @@
  */
 
 import * as WebBrowser from 'expo-web-browser';
-import * as SecureStore from 'expo-secure-store';
 import * as Crypto from 'expo-crypto';
+import { ScalekitDiscovery } from './ScalekitDiscovery';
+import { NamespacedStorage } from '../storage/NamespacedStorage';
+import { SecureStoreStorage } from '../storage/SecureStoreStorage';
+import { WebStorage } from '../storage/WebStorage';
+import { getBrowserWindow, isWeb } from '../utils/web';
+import { getDefaultRedirectUri, warnOnUnregisteredScheme } from '../utils/redirect';
+import { IdTokenVerificationOptions, ScalekitTokenVerifier } from './ScalekitTokenVerifier';
+import { ScalekitDPoP } from './ScalekitDPoP';
+import { decodeJwt } from '../utils/jwt';
+import { readErrorDetails, request } from '../utils/http';
+import { getAuthorizationParams } from '../utils/authorizationParams';
+import { parseSeconds, parseTokenResponse } from '../utils/tokens';
 import {
+  AuthorizationResponseError,
+  ConfigurationError,
+  DeviceCodeExpiredError,
+  ScalekitError,
+  SessionExpiredError,
+  StateMismatchError,
+  TokenEndpointError,
+  UserCancelledError,
+} from '../errors';
+import {
+  ScalekitAccessTokenOptions,
   ScalekitConfig,
+  ScalekitDeviceAuthorization,
+  ScalekitDeviceLoginOptions,
+  ScalekitEndpoints,
   ScalekitTokens,
   ScalekitUser,
   ScalekitLoginOptions,
+  ScalekitLogoutOptions,
+  ScalekitStorage,
 } from '../types';
 
 // Configure WebBrowser for OAuth
@@ -21,46 +48,148 @@ WebBrowser.maybeCompleteAuthSession();
 const STORAGE_KEYS = {
   TOKENS: 'scalekit_tokens',
   USER_INFO: 'scalekit_user_info',
-  CODE_VERIFIER: 'pkce_code_verifier',
+  PENDING_LOGIN: 'scalekit_pending_login',
+  ORGANIZATION: 'scalekit_organization',
+  RETURN_TO: 'scalekit_return_to',
+  AUDIENCE_TOKENS: 'scalekit_audience_tokens',
 } as const;
 
+/**
+ * How long an unfinished login can be resumed (authorization codes expire well before this)
+ */
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Grant type of device code token requests (RFC 8628)
+ */
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * Polling interval in seconds when the device authorization response omits one
+ */
+const DEFAULT_DEVICE_POLL_INTERVAL = 5;
+
+/**
+ * Device code lifetime in seconds when the device authorization response omits a usable one
+ */
+const DEFAULT_DEVICE_CODE_EXPIRES_IN = 600;
+
+/**
+ * Grant type and token type of token exchange requests (RFC 8693)
+ */
+const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+/**
+ * Login started by login(), persisted so it can be completed after an app restart
+ */
+interface PendingLogin {
+  codeVerifier: string;
+  state: string;
+  nonce: string;
+  /** Redirect URI sent in the authorization request (must be repeated in the code exchange) */
+  redirectUri: string;
+  options?: ScalekitLoginOptions;
+  /** Extra ID token requirements, e.g. the user and auth_time when re-authenticating */
+  verification?: Omit<IdTokenVerificationOptions, 'nonce'>;
+  createdAt: number;
+}
+
+/**
+ * Strip the query and fragment from a URL
+ */
+const withoutQuery = (url: string): string => url.split(/[?#]/)[0];
+
+/**
+ * Whether a return path is an in-app absolute path (not a URL or protocol-relative path)
+ */
+const isAppPath = (path: string): boolean => path.startsWith('/') && !path.startsWith('//');
+
+/**
+ * Cache key of an audience-scoped token: the audience plus its sorted scopes
+ */
+const audienceCacheKey = ({ audience, scopes = [] }: ScalekitAccessTokenOptions): string =>
+  [audience, ...[...scopes].sort()].join(' ');
+
+/**
+ * Wait for a number of milliseconds, rejecting with UserCancelledError if the signal aborts
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UserCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UserCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
 /**
  * ScalekitAuth Service Class
  */
 export class ScalekitAuth {
   private config: ScalekitConfig;
+  private storage: ScalekitStorage;
+  private discovery: ScalekitDiscovery;
+  private verifier: ScalekitTokenVerifier;
+  private refreshPromise: Promise<ScalekitTokens> | null = null;
+  private refreshLock: Promise<unknown> = Promise.resolve();
+  private audiencePromises = new Map<string, Promise<ScalekitTokens>>();
+  private parFallbackWarned = false;
+
+  /**
+   * DPoP proof generator, or null when `dpop` is disabled
+   */
+  readonly dpop: ScalekitDPoP | null;
 
   constructor(config: ScalekitConfig) {
+    if (!config.envUrl || !config.clientId) {
+      throw new ConfigurationError('envUrl and clientId are required');
+    }
+
     this.config = {
       ...config,
       scopes: config.scopes || ['openid', 'profile', 'email'],
-      redirectUri: config.redirectUri || this.getDefaultRedirectUri(),
+      redirectUri: config.redirectUri || getDefaultRedirectUri(config.redirectPath),
     };
+    if (config.redirectUri) {
+      warnOnUnregisteredScheme(config.redirectUri);
+    }
+    this.storage = new NamespacedStorage(
+      config.storage ?? (isWeb ? new WebStorage() : new SecureStoreStorage()),
+      config.envUrl,
+      config.clientId,
+      { migrateLegacyKeys: !config.storage }
+    );
+    this.discovery = new ScalekitDiscovery(config.envUrl, this.storage, {
+      document: config.discovery,
+      ttl: config.discoveryTtl,
+    });
+    this.verifier = new ScalekitTokenVerifier(this.discovery, {
+      clientId: config.clientId,
+      clockSkew: config.clockSkew ?? 60,
+    });
+    this.dpop = config.dpop ? new ScalekitDPoP(this.storage) : null;
   }
 
   /**
-   * Get default redirect URI based on environment
-   */
-  private getDefaultRedirectUri(): string {
-    // In development, use exp:// scheme
-    // In production, use custom scheme from app.json
-    return 'exp://localhost:8081/--/auth/callback';
-  }
-
-  /**
-   * Get OAuth endpoints
+   * Get OAuth endpoints from the OIDC discovery document
    */
-  private getEndpoints() {
-    return {
-      authorization: `${this.config.envUrl}/oauth/authorize`,
-      token: `${this.config.envUrl}/oauth/token`,
-    };
+  async getEndpoints(): Promise<ScalekitEndpoints> {
+    return this.discovery.getEndpoints();
   }
 
   /**
-   * Generate a cryptographically secure random string for PKCE
+   * Generate a cryptographically secure random string for PKCE, state and nonce
    */
-  private async generateCodeVerifier(): Promise<string> {
+  private async generateRandomString(): Promise<string> {
     const randomBytes = await Crypto.getRandomBytesAsync(32);
     return this.base64URLEncode(randomBytes);
   }
@@ -104,41 +233,72 @@ export class ScalekitAuth {
 
   /**
    * Initiate OAuth login with PKCE
+   *
+   * @param options Login parameters
+   * @param verification Claims the resulting ID token must satisfy (subject, auth_time, acr)
    */
-  async login(options?: ScalekitLoginOptions): Promise<WebBrowser.WebBrowserAuthSessionResult> {
+  async login(
+    options?: ScalekitLoginOptions,
+    verification?: Omit<IdTokenVerificationOptions, 'nonce'>
+  ): Promise<WebBrowser.WebBrowserAuthSessionResult> {
     try {
+      // Validate the optional parameters, defaulting to the organization last switched to
+      const organizationId = options?.organizationId ?? (await this.getSelectedOrganizationId());
+      const authorizationParams = getAuthorizationParams({
+        ...options,
+        organizationId: organizationId ?? undefined,
+      });
+
       // Generate PKCE parameters
-      const codeVerifier = await this.generateCodeVerifier();
+      const codeVerifier = await this.generateRandomString();
       const codeChallenge = await this.generateCodeChallenge(codeVerifier);
 
-      // Store code verifier for later use in token exchange
-      await SecureStore.setItemAsync(STORAGE_KEYS.CODE_VERIFIER, codeVerifier);
+      // Generate CSRF state and replay-protection nonce
+      const state = await this.generateRandomString();
+      const nonce = await this.generateRandomString();
 
-      // Build authorization URL
+      // Store values needed to validate the callback and exchange the code
+      const pendingLogin: PendingLogin = {
+        codeVerifier,
+        state,
+        nonce,
+        redirectUri: this.config.redirectUri!,
+        options,
+        verification,
+        createdAt: Date.now(),
+      };
+      await this.storage.setItem(STORAGE_KEYS.PENDING_LOGIN, JSON.stringify(pendingLogin));
+      if (options?.returnTo) {
+        await this.setReturnTo(options.returnTo);
+      }
+
+      // Build authorization URL; the SDK-managed parameters always win
       const params: Record<string, string> = {
+        scope: this.config.scopes!.join(' '),
+        ...authorizationParams,
         client_id: this.config.clientId,
         redirect_uri: this.config.redirectUri!,
         response_type: 'code',
-        scope: this.config.scopes!.join(' '),
         code_challenge: codeChallenge,
         code_challenge_method: 'S256',
+        state,
+        nonce,
       };
-
-      // Add optional parameters
-      if (options?.organizationId) {
-        params.organization_id = options.organizationId;
-      }
-      if (options?.connectionId) {
-        params.connection_id = options.connectionId;
-      }
-      if (options?.extraParams) {
-        Object.assign(params, options.extraParams);
+      if (this.dpop) {
+        // Bind the authorization code to the DPoP key (RFC 9449 section 10)
+        params.dpop_jkt = await this.dpop.getThumbprint();
       }
 
-      const urlParams = new URLSearchParams(params);
-      const authUrl = `${this.getEndpoints().authorization}?${urlParams.toString()}`;
+      const authUrl = await this.buildAuthorizationUrl(params);
 
-      // Start auth session using WebBrowser
+      // On web in redirect mode, navigate this tab; completeWebRedirect() finishes on return
+      const browserWindow = getBrowserWindow();
+      if (browserWindow && this.config.webLoginMode === 'redirect') {
+        browserWindow.location.assign(authUrl);
+        return { type: WebBrowser.WebBrowserResultType.OPENED };
+      }
+
+      // Start auth session using WebBrowser (a popup on web)
       const result = await WebBrowser.openAuthSessionAsync(
         authUrl,
         this.config.redirectUri!
@@ -147,96 +307,706 @@ export class ScalekitAuth {
       return result;
     } catch (error) {
       console.error('[Scalekit] Error initiating login:', error);
+      await this.clearPendingLogin();
       throw error;
     }
   }
 
+  /**
+   * Log in with the device authorization grant (RFC 8628)
+   *
+   * Requests a user code, reports it through `onDeviceCode`, then polls the token
+   * endpoint until the user approves or denies the login on another device, the
+   * code expires or `signal` aborts. Tokens are verified and stored like a browser login.
+   */
+  async loginWithDeviceCode(options: ScalekitDeviceLoginOptions = {}): Promise<ScalekitTokens> {
+    try {
+      const { deviceCode, authorization } = await this.requestDeviceAuthorization(options);
+      options.onDeviceCode?.(authorization);
+
+      let interval = authorization.interval;
+      for (;;) {
+        await delay(interval * 1000, options.signal);
+        if (Date.now() >= authorization.expiresAt) {
+          throw new DeviceCodeExpiredError();
+        }
+
+        let data: any;
+        try {
+          data = await this.requestTokens(
+            {
+              grant_type: DEVICE_CODE_GRANT_TYPE,
+              device_code: deviceCode,
+              client_id: this.config.clientId,
+            },
+            'Device login failed'
+          );
+        } catch (error) {
+          if (!(error instanceof TokenEndpointError)) {
+            throw error;
+          }
+          switch (error.oauthError) {
+            case 'authorization_pending':
+              continue;
+            case 'slow_down':
+              interval += 5;
+              continue;
+            case 'access_denied':
+              throw new AuthorizationResponseError('access_denied', error.errorDescription);
+            case 'expired_token':
+              throw new DeviceCodeExpiredError();
+            default:
+              throw error;
+          }
+        }
+
+        if (options.signal?.aborted) {
+          throw new UserCancelledError();
+        }
+
+        const tokens = parseTokenResponse(data);
+        if (tokens.idToken) {
+          await this.verifier.verifyIdToken(tokens.idToken);
+        }
+        await this.storeTokens(tokens);
+        await this.clearAudienceTokens();
+
+        return tokens;
+      }
+    } catch (error) {
+      console.error('[Scalekit] Error during device login:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request a device code and user code from the device authorization endpoint
+   */
+  private async requestDeviceAuthorization(
+    options: ScalekitDeviceLoginOptions
+  ): Promise<{ deviceCode: string; authorization: ScalekitDeviceAuthorization }> {
+    const params: Record<string, string> = {
+      client_id: this.config.clientId,
+      scope: this.config.scopes!.join(' '),
+    };
+    const organizationId = options.organizationId ?? (await this.getSelectedOrganizationId());
+    if (organizationId) {
+      params.organization_id = organizationId;
+    }
+    if (options.connectionId) {
+      params.connection_id = options.connectionId;
+    }
+
+    const { deviceAuthorization } = await this.getEndpoints();
+    const data = await this.postForm(deviceAuthorization, params, 'Device authorization failed');
+    const missing = ['device_code', 'user_code', 'verification_uri'].filter(
+      (field) => typeof data?.[field] !== 'string' || !data[field]
+    );
+    if (missing.length > 0) {
+      throw new ScalekitError(
+        'authorization_failed',
+        `Invalid device authorization response: missing ${missing.join(', ')}`
+      );
+    }
+
+    const expiresIn = parseSeconds(data.expires_in, DEFAULT_DEVICE_CODE_EXPIRES_IN);
+    return {
+      deviceCode: data.device_code,
+      authorization: {
+        userCode: data.user_code,
+        verificationUri: data.verification_uri,
+        verificationUriComplete: data.verification_uri_complete,
+        qrCodeValue: data.verification_uri_complete ?? data.verification_uri,
+        expiresAt: Date.now() + expiresIn * 1000,
+        interval: parseSeconds(data.interval, DEFAULT_DEVICE_POLL_INTERVAL),
+      },
+    };
+  }
+
+  /**
+   * Build the URL that starts an authorization request
+   *
+   * With usePar, the parameters are pushed to the PAR endpoint (RFC 9126) and the
+   * URL only carries client_id and request_uri, keeping them out of the browser.
+   */
+  private async buildAuthorizationUrl(params: Record<string, string>): Promise<string> {
+    const { authorization, pushedAuthorizationRequest } = await this.getEndpoints();
+
+    if (this.config.usePar && !pushedAuthorizationRequest && !this.parFallbackWarned) {
+      this.parFallbackWarned = true;
+      console.warn(
+        '[Scalekit] usePar is enabled, but the server does not advertise a pushed_authorization_request_endpoint. Sending the parameters in the authorization URL instead.'
+      );
+    }
+    if (!this.config.usePar || !pushedAuthorizationRequest) {
+      return `${authorization}?${new URLSearchParams(params).toString()}`;
+    }
+
+    const data = await this.postForm(
+      pushedAuthorizationRequest,
+      params,
+      'Pushed authorization request failed'
+    );
+    if (!data.request_uri) {
+      throw new ScalekitError('authorization_failed', 'Invalid pushed authorization response');
+    }
+
+    const query = new URLSearchParams({
+      client_id: this.config.clientId,
+      request_uri: data.request_uri,
+    });
+    return `${authorization}?${query.toString()}`;
+  }
+
+  /**
+   * Validate the redirect URL from the authorization server and exchange its code
+   *
+   * The state is checked first, error responses included, so a forged redirect
+   * neither ends nor consumes the pending login. Once it matches, the pending
+   * login is cleared whether or not the exchange succeeds.
+   */
+  async handleCallback(url: string): Promise<ScalekitTokens> {
+    const params = new URL(url).searchParams;
+
+    const pendingLogin = await this.getPendingLogin();
+    const state = params.get('state');
+    if (!pendingLogin || !state || state !== pendingLogin.state) {
+      throw new StateMismatchError();
+    }
+
+    try {
+      const error = params.get('error');
+      if (error) {
+        throw new AuthorizationResponseError(
+          error,
+          params.get('error_description') ?? undefined
+        );
+      }
+
+      const code = params.get('code');
+      if (!code) {
+        throw new ScalekitError('authorization_failed', 'No authorization code received');
+      }
+
+      return await this.exchangeCodeForTokens(code);
+    } finally {
+      await this.clearPendingLogin();
+    }
+  }
+
+  /**
+   * Finish a web full-page redirect login when the current page is its callback
+   *
+   * Resolves to null when there is nothing to complete. The callback query is
+   * removed from the address bar either way.
+   */
+  async completeWebRedirect(): Promise<ScalekitTokens | null> {
+    const browserWindow = getBrowserWindow();
+    if (!browserWindow || this.config.webLoginMode !== 'redirect') {
+      return null;
+    }
+
+    const url = browserWindow.location.href;
+    const [path, query = ''] = url.split('?');
+    const isCallback =
+      path === this.config.redirectUri!.split('?')[0] && /(^|&)(code|error)=/.test(query);
+    if (!isCallback || !(await this.getPendingLogin())) {
+      return null;
+    }
+
+    try {
+      return await this.handleCallback(url);
+    } finally {
+      browserWindow.history.replaceState(null, '', path);
+    }
+  }
+
+  /**
+   * Whether a URL is the authorization response for the pending login
+   *
+   * Used to complete a login after the app was restarted by the redirect;
+   * unrelated deep links and already handled callbacks do not match.
+   */
+  async isPendingCallback(url: string): Promise<boolean> {
+    const pendingLogin = await this.getPendingLogin();
+    if (!pendingLogin || withoutQuery(url) !== withoutQuery(pendingLogin.redirectUri)) {
+      return false;
+    }
+
+    try {
+      const params = new URL(url).searchParams;
+      return (
+        (params.has('code') || params.has('error')) && params.get('state') === pendingLogin.state
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the unfinished login, discarding it once it is too old to complete
+   */
+  private async getPendingLogin(): Promise<PendingLogin | null> {
+    const json = await this.storage.getItem(STORAGE_KEYS.PENDING_LOGIN);
+    if (!json) {
+      return null;
+    }
+
+    let pendingLogin: PendingLogin | null = null;
+    try {
+      pendingLogin = JSON.parse(json);
+    } catch {
+      // Unreadable record - treat as expired
+    }
+    if (!pendingLogin || Date.now() - pendingLogin.createdAt > PENDING_LOGIN_TTL_MS) {
+      await this.clearPendingLogin();
+      return null;
+    }
+    return pendingLogin;
+  }
+
+  /**
+   * Remove the pending login record of an in-progress login
+   */
+  async clearPendingLogin(): Promise<void> {
+    try {
+      await this.storage.removeItem(STORAGE_KEYS.PENDING_LOGIN);
+    } catch (error) {
+      console.error('[Scalekit] Error clearing pending login:', error);
+    }
+  }
+
+  /**
+   * Remember the in-app path to return to once login completes
+   *
+   * Persisted so it survives the OAuth round-trip, including web full-page redirects.
+   */
+  async setReturnTo(path: string): Promise<void> {
+    if (!isAppPath(path)) {
+      console.warn(`[Scalekit] Ignoring return path "${path}": it must start with a single "/"`);
+      return;
+    }
+    await this.storage.setItem(STORAGE_KEYS.RETURN_TO, path);
+  }
+
+  /**
+   * Read and forget the path to return to after login
+   */
+  async consumeReturnTo(): Promise<string | null> {
+    const path = await this.storage.getItem(STORAGE_KEYS.RETURN_TO);
+    if (path !== null) {
+      await this.storage.removeItem(STORAGE_KEYS.RETURN_TO);
+    }
+    return path && isAppPath(path) ? path : null;
+  }
+
   /**
    * Exchange authorization code for tokens
+   *
+   * The id_token is verified (including the stored nonce) before anything is stored.
    */
   async exchangeCodeForTokens(code: string): Promise<ScalekitTokens> {
     try {
-      // Retrieve stored code verifier
-      const codeVerifier = await SecureStore.getItemAsync(STORAGE_KEYS.CODE_VERIFIER);
-      if (!codeVerifier) {
-        throw new Error('Code verifier not found. Please restart the login flow.');
+      // Retrieve the code verifier of the pending login
+      const pendingLogin = await this.getPendingLogin();
+      if (!pendingLogin) {
+        throw new ScalekitError(
+          'authorization_failed',
+          'Code verifier not found. Please restart the login flow.'
+        );
       }
 
       // Build token exchange parameters
       const tokenParams: Record<string, string> = {
         grant_type: 'authorization_code',
         code,
-        redirect_uri: this.config.redirectUri!,
+        redirect_uri: pendingLogin.redirectUri,
         client_id: this.config.clientId,
-        code_verifier: codeVerifier,
+        code_verifier: pendingLogin.codeVerifier,
       };
 
-      // Only include client_secret if provided (optional for PKCE-only flow)
-      if (this.config.clientSecret) {
-        tokenParams.client_secret = this.config.clientSecret;
+      // Exchange code for tokens
+      const data = await this.requestTokens(tokenParams, 'Token exchange failed');
+      const tokens = parseTokenResponse(data);
+
+      if (tokens.idToken) {
+        await this.verifier.verifyIdToken(tokens.idToken, {
+          ...pendingLogin.verification,
+          nonce: pendingLogin.nonce,
+        });
+      } else if (pendingLogin.verification) {
+        throw new ScalekitError('invalid_id_token', 'No id_token received from Scalekit');
       }
 
-      // Exchange code for tokens
-      const response = await fetch(this.getEndpoints().token, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams(tokenParams).toString(),
+      // Store tokens securely; tokens for other APIs belonged to the previous session
+      await this.storeTokens(tokens);
+      await this.clearAudienceTokens();
+
+      // Clean up the pending login
+      await this.clearPendingLogin();
+
+      return tokens;
+    } catch (error) {
+      console.error('[Scalekit] Error exchanging code for tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new set of tokens
+   *
+   * Concurrent callers share a single in-flight refresh request.
+   */
+  refreshTokens(): Promise<ScalekitTokens> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.withRefreshLock(() => this.performTokenRefresh()).finally(() => {
+        this.refreshPromise = null;
       });
+    }
+    return this.refreshPromise;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(`Token exchange failed: ${errorData}`);
-      }
+  /**
+   * Run refresh token grants one at a time, so a rotated refresh token is never reused
+   */
+  private withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.refreshLock.then(task, task);
+    this.refreshLock = run.catch(() => undefined);
+    return run;
+  }
 
-      const data = await response.json() as any;
+  /**
+   * Run the refresh_token grant and persist the result
+   */
+  private async performTokenRefresh(): Promise<ScalekitTokens> {
+    try {
+      const storedTokens = await this.getStoredTokens();
+      if (!storedTokens?.refreshToken) {
+        throw new SessionExpiredError();
+      }
 
-      const tokens: ScalekitTokens = {
-        accessToken: data.access_token,
-        refreshToken: data.refresh_token,
-        idToken: data.id_token,
-        tokenType: data.token_type,
-        expiresIn: data.expires_in,
-        expiresAt: Date.now() + data.expires_in * 1000,
+      const params: Record<string, string> = {
+        grant_type: 'refresh_token',
+        refresh_token: storedTokens.refreshToken,
+        client_id: this.config.clientId,
       };
+      const organizationId = await this.getSelectedOrganizationId();
+      if (organizationId) {
+        params.organization_id = organizationId;
+      }
 
-      // Store tokens securely
-      await SecureStore.setItemAsync(STORAGE_KEYS.TOKENS, JSON.stringify(tokens));
+      let data: any;
+      try {
+        data = await this.requestTokens(params, 'Token refresh failed');
+      } catch (error) {
+        if (error instanceof TokenEndpointError && error.code === 'invalid_grant') {
+          // Another browser tab may have rotated the refresh token in the meantime
+          const latestTokens = await this.getStoredTokens();
+          if (
+            latestTokens?.refreshToken &&
+            latestTokens.refreshToken !== storedTokens.refreshToken
+          ) {
+            return latestTokens;
+          }
 
-      // Clean up code verifier
-      await SecureStore.deleteItemAsync(STORAGE_KEYS.CODE_VERIFIER);
+          // The server rejected the refresh token, so the session cannot be recovered
+          await this.storage.removeItem(STORAGE_KEYS.TOKENS);
+        }
+        throw error;
+      }
 
-      return tokens;
+      return await this.storeRefreshedTokens(data, storedTokens);
     } catch (error) {
-      console.error('[Scalekit] Error exchanging code for tokens:', error);
+      console.error('[Scalekit] Error refreshing tokens:', error);
       throw error;
     }
   }
 
   /**
-   * Decode JWT id_token to get user information
+   * Request tokens scoped to another organization with the refresh token
+   *
+   * Unlike refreshTokens(), a rejected request leaves the stored session untouched,
+   * so callers can fall back to an interactive login. The returned tokens may still
+   * belong to the previous organization if the server ignored the request.
    */
-  private decodeIdToken(idToken: string): ScalekitUser {
+  refreshTokensForOrganization(organizationId: string): Promise<ScalekitTokens> {
+    return this.withRefreshLock(async () => {
+      const storedTokens = await this.getStoredTokens();
+      if (!storedTokens?.refreshToken) {
+        throw new SessionExpiredError();
+      }
+
+      const data = await this.requestTokens(
+        {
+          grant_type: 'refresh_token',
+          refresh_token: storedTokens.refreshToken,
+          client_id: this.config.clientId,
+          organization_id: organizationId,
+        },
+        'Organization switch failed'
+      );
+
+      // Tokens for other APIs were scoped to the previous organization
+      await this.clearAudienceTokens();
+      return this.storeRefreshedTokens(data, storedTokens);
+    });
+  }
+
+  /**
+   * Verify and persist a refresh_token grant response
+   */
+  private async storeRefreshedTokens(
+    data: any,
+    storedTokens: ScalekitTokens
+  ): Promise<ScalekitTokens> {
+    // Refresh responses may omit tokens that were not rotated
+    const refreshed = parseTokenResponse(data);
+    if (refreshed.idToken) {
+      await this.verifier.verifyIdToken(refreshed.idToken);
+    }
+    const tokens: ScalekitTokens = {
+      ...refreshed,
+      refreshToken: refreshed.refreshToken ?? storedTokens.refreshToken,
+      idToken: refreshed.idToken ?? storedTokens.idToken,
+    };
+
+    await this.storeTokens(tokens);
+
+    return tokens;
+  }
+
+  /**
+   * Get an access token for another API, from the cache or the token endpoint
+   *
+   * Tokens are requested with the refresh token and an RFC 8707 `resource`
+   * parameter, or by exchanging the session's access token (RFC 8693) when
+   * `audienceTokenGrant` is `token_exchange`. They are cached per audience and
+   * scope set until they expire; a rejected request leaves the session untouched.
+   *
+   * @param subjectToken Valid access token of the session (exchanged in token_exchange mode)
+   */
+  getAudienceTokens(
+    options: ScalekitAccessTokenOptions,
+    subjectToken: string
+  ): Promise<ScalekitTokens> {
+    const key = audienceCacheKey(options);
+    let pending = this.audiencePromises.get(key);
+    if (!pending) {
+      pending = this.loadAudienceTokens(key, options, subjectToken).finally(() => {
+        this.audiencePromises.delete(key);
+      });
+      this.audiencePromises.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Return a cached audience token, or request and cache a new one
+   */
+  private async loadAudienceTokens(
+    key: string,
+    options: ScalekitAccessTokenOptions,
+    subjectToken: string
+  ): Promise<ScalekitTokens> {
+    const cached = (await this.getAudienceTokenCache())[key];
+    if (cached && !this.areTokensExpired(cached)) {
+      return cached;
+    }
+
+    const params: Record<string, string> = { client_id: this.config.clientId };
+    if (options.scopes?.length) {
+      params.scope = options.scopes.join(' ');
+    }
+
+    let data: any;
+    if (this.config.audienceTokenGrant === 'token_exchange') {
+      data = await this.requestTokens(
+        {
+          ...params,
+          grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+          subject_token: subjectToken,
+          subject_token_type: ACCESS_TOKEN_TYPE,
+          requested_token_type: ACCESS_TOKEN_TYPE,
+          audience: options.audience,
+        },
+        'Token exchange failed'
+      );
+    } else {
+      data = await this.withRefreshLock(async () => {
+        const storedTokens = await this.getStoredTokens();
+        if (!storedTokens?.refreshToken) {
+          throw new SessionExpiredError();
+        }
+        const organizationId = await this.getSelectedOrganizationId();
+
+        const response = await this.requestTokens(
+          {
+            ...params,
+            grant_type: 'refresh_token',
+            refresh_token: storedTokens.refreshToken,
+            resource: options.audience,
+            ...(organizationId ? { organization_id: organizationId } : {}),
+          },
+          'Audience token request failed'
+        );
+
+        // Keep a rotated refresh token for the session
+        if (response.refresh_token && response.refresh_token !== storedTokens.refreshToken) {
+          await this.storeTokens({ ...storedTokens, refreshToken: response.refresh_token });
+        }
+        return response;
+      });
+    }
+
+    const { accessToken, tokenType, expiresIn, expiresAt } = parseTokenResponse(data);
+    const tokens: ScalekitTokens = { accessToken, tokenType, expiresIn, expiresAt };
+
+    // Re-read so tokens cached for other audiences in the meantime are kept
+    const cache = await this.getAudienceTokenCache();
+    await this.storage.setItem(
+      STORAGE_KEYS.AUDIENCE_TOKENS,
+      JSON.stringify({ ...cache, [key]: tokens })
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Read the cached audience tokens
+   */
+  private async getAudienceTokenCache(): Promise<Record<string, ScalekitTokens>> {
     try {
-      // JWT has three parts: header.payload.signature
-      const parts = idToken.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid JWT format');
+      const json = await this.storage.getItem(STORAGE_KEYS.AUDIENCE_TOKENS);
+      return json ? JSON.parse(json) : {};
+    } catch (error) {
+      console.error('[Scalekit] Error retrieving audience tokens:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Drop all cached audience tokens
+   */
+  private async clearAudienceTokens(): Promise<void> {
+    await this.storage.removeItem(STORAGE_KEYS.AUDIENCE_TOKENS);
+  }
+
+  /**
+   * Get the organization the user last switched to
+   */
+  async getSelectedOrganizationId(): Promise<string | null> {
+    return this.storage.getItem(STORAGE_KEYS.ORGANIZATION);
+  }
+
+  /**
+   * Remember the organization to use for future logins and refreshes
+   */
+  async setSelectedOrganizationId(organizationId: string): Promise<void> {
+    await this.storage.setItem(STORAGE_KEYS.ORGANIZATION, organizationId);
+  }
+
+  /**
+   * Get stored tokens, refreshing them first if they have expired
+   *
+   * Returns null when there is no session or it cannot be refreshed.
+   */
+  async getValidTokens(): Promise<ScalekitTokens | null> {
+    const tokens = await this.getStoredTokens();
+    if (!tokens) {
+      return null;
+    }
+    if (!this.areTokensExpired(tokens)) {
+      return tokens;
+    }
+    if (!tokens.refreshToken) {
+      return null;
+    }
+    return this.refreshTokens();
+  }
+
+  /**
+   * POST a grant to the token endpoint and return the raw JSON response
+   */
+  private async requestTokens(
+    params: Record<string, string>,
+    failureMessage: string
+  ): Promise<any> {
+    const { token } = await this.getEndpoints();
+    return this.postForm(token, params, failureMessage);
+  }
+
+  /**
+   * POST form parameters with the client credentials and return the raw JSON response
+   */
+  private async postForm(
+    url: string,
+    params: Record<string, string>,
+    failureMessage: string
+  ): Promise<any> {
+    const body: Record<string, string> = { ...params };
+
+    // Only include client_secret if provided (optional for PKCE-only flow)
+    if (this.config.clientSecret) {
+      body.client_secret = this.config.clientSecret;
+    }
+
+    const send = async (): Promise<Response> => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      };
+      if (this.dpop) {
+        headers.DPoP = await this.dpop.createProof('POST', url);
       }
+      return request(url, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams(body).toString(),
+      });
+    };
 
-      // Decode the payload (second part)
-      const payload = parts[1];
-      // Add padding if needed
-      const paddedPayload = payload + '='.repeat((4 - (payload.length % 4)) % 4);
-      // Decode from base64
-      const decodedPayload = atob(paddedPayload.replace(/-/g, '+').replace(/_/g, '/'));
-      const userInfo = JSON.parse(decodedPayload);
+    let response = await send();
 
-      return userInfo;
+    // Retry once with the DPoP nonce the server asked for
+    if (
+      this.dpop?.updateNonce(url, response.headers.get('DPoP-Nonce')) &&
+      response.status === 400 &&
+      (await readErrorDetails(response.clone())).oauthError === 'use_dpop_nonce'
+    ) {
+      response = await send();
+      this.dpop.updateNonce(url, response.headers.get('DPoP-Nonce'));
+    }
+
+    if (!response.ok) {
+      const details = await readErrorDetails(response);
+      const reason = details.oauthError
+        ? [details.oauthError, details.errorDescription].filter(Boolean).join(': ')
+        : details.errorDescription || `HTTP ${response.status}`;
+      throw new TokenEndpointError(`${failureMessage}: ${reason}`, details);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Persist tokens to secure storage
+   */
+  private async storeTokens(tokens: ScalekitTokens): Promise<void> {
+    await this.storage.setItem(STORAGE_KEYS.TOKENS, JSON.stringify(tokens));
+  }
+
+  /**
+   * Decode JWT id_token to get user information
+   *
+   * Tokens are verified before being stored, so this only decodes the payload.
+   */
+  private decodeIdToken(idToken: string): ScalekitUser {
+    try {
+      return decodeJwt<ScalekitUser>(idToken).payload;
     } catch (error) {
       console.error('[Scalekit] Error decoding id_token:', error);
-      throw new Error('Failed to decode user information from id_token');
+      throw new ScalekitError('invalid_id_token', 'Failed to decode user information from id_token', {
+        cause: error,
+      });
     }
   }
 
@@ -249,7 +1019,7 @@ export class ScalekitAuth {
       const userInfo = this.decodeIdToken(idToken);
 
       // Store user info
-      await SecureStore.setItemAsync(STORAGE_KEYS.USER_INFO, JSON.stringify(userInfo));
+      await this.storage.setItem(STORAGE_KEYS.USER_INFO, JSON.stringify(userInfo));
 
       return userInfo;
     } catch (error) {
@@ -263,7 +1033,7 @@ export class ScalekitAuth {
    */
   async getStoredTokens(): Promise<ScalekitTokens | null> {
     try {
-      const tokensJson = await SecureStore.getItemAsync(STORAGE_KEYS.TOKENS);
+      const tokensJson = await this.storage.getItem(STORAGE_KEYS.TOKENS);
       return tokensJson ? JSON.parse(tokensJson) : null;
     } catch (error) {
       console.error('[Scalekit] Error retrieving stored tokens:', error);
@@ -276,7 +1046,7 @@ export class ScalekitAuth {
    */
   async getStoredUserInfo(): Promise<ScalekitUser | null> {
     try {
-      const userInfoJson = await SecureStore.getItemAsync(STORAGE_KEYS.USER_INFO);
+      const userInfoJson = await this.storage.getItem(STORAGE_KEYS.USER_INFO);
       return userInfoJson ? JSON.parse(userInfoJson) : null;
     } catch (error) {
       console.error('[Scalekit] Error retrieving stored user info:', error);
@@ -294,17 +1064,105 @@ export class ScalekitAuth {
 
   /**
    * Logout and clear all stored data
+   *
+   * Tokens are revoked and the Scalekit session ended on a best-effort basis;
+   * local data is always cleared, even if those network calls fail.
    */
-  async logout(): Promise<void> {
+  async logout(options: ScalekitLogoutOptions = {}): Promise<void> {
+    const { revokeTokens = true, endSession = false } = options;
+    const tokens = await this.getStoredTokens();
+
     try {
       await Promise.all([
-        SecureStore.deleteItemAsync(STORAGE_KEYS.TOKENS),
-        SecureStore.deleteItemAsync(STORAGE_KEYS.USER_INFO),
-        SecureStore.deleteItemAsync(STORAGE_KEYS.CODE_VERIFIER),
+        this.storage.removeItem(STORAGE_KEYS.TOKENS),
+        this.storage.removeItem(STORAGE_KEYS.USER_INFO),
+        this.storage.removeItem(STORAGE_KEYS.ORGANIZATION),
+        this.storage.removeItem(STORAGE_KEYS.RETURN_TO),
+        this.clearAudienceTokens(),
+        this.clearPendingLogin(),
       ]);
     } catch (error) {
       console.error('[Scalekit] Error during logout:', error);
       throw error;
     }
+
+    if (!tokens) {
+      return;
+    }
+
+    if (revokeTokens) {
+      await this.revokeTokens(tokens);
+    }
+
+    if (endSession) {
+      await this.endSession(tokens, options.postLogoutRedirectUri);
+    }
+  }
+
+  /**
+   * Revoke the refresh and access tokens (RFC 7009)
+   */
+  private async revokeTokens(tokens: ScalekitTokens): Promise<void> {
+    const requests: Promise<void>[] = [];
+    if (tokens.refreshToken) {
+      requests.push(this.revokeToken(tokens.refreshToken, 'refresh_token'));
+    }
+    requests.push(this.revokeToken(tokens.accessToken, 'access_token'));
+
+    await Promise.all(requests);
+  }
+
+  /**
+   * Revoke a single token, logging rather than throwing on failure
+   */
+  private async revokeToken(token: string, tokenTypeHint: string): Promise<void> {
+    try {
+      const params: Record<string, string> = {
+        token,
+        token_type_hint: tokenTypeHint,
+        client_id: this.config.clientId,
+      };
+      if (this.config.clientSecret) {
+        params.client_secret = this.config.clientSecret;
+      }
+
+      const { revocation } = await this.getEndpoints();
+      const response = await request(revocation, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams(params).toString(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token revocation failed with status ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`[Scalekit] Error revoking ${tokenTypeHint}:`, error);
+    }
+  }
+
+  /**
+   * End the Scalekit session (OIDC RP-initiated logout)
+   */
+  private async endSession(tokens: ScalekitTokens, postLogoutRedirectUri?: string): Promise<void> {
+    try {
+      const redirectUri = postLogoutRedirectUri || this.config.redirectUri!;
+      const params: Record<string, string> = {
+        client_id: this.config.clientId,
+        post_logout_redirect_uri: redirectUri,
+      };
+      if (tokens.idToken) {
+        params.id_token_hint = tokens.idToken;
+      }
+
+      const { endSession } = await this.getEndpoints();
+      const logoutUrl = `${endSession}?${new URLSearchParams(params).toString()}`;
+
+      await WebBrowser.openAuthSessionAsync(logoutUrl, redirectUri);
+    } catch (error) {
+      console.warn('[Scalekit] Error ending session:', error);
+    }
   }
 }
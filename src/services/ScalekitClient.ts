@@ -0,0 +1,898 @@
+/**
+ * @scalekit-sdk/expo - Headless Client
+ *
+ * Framework-agnostic auth state machine shared by ScalekitProvider and non-React code
+ */
+
+import { Linking, Platform } from 'react-native';
+import { ScalekitAuth } from './ScalekitAuth';
+import { IdTokenVerificationOptions } from './ScalekitTokenVerifier';
+import { AuthBroadcast, createAuthBroadcast, isWeb } from '../utils/web';
+import { isDPoPNonceChallenge, isInvalidTokenChallenge, request } from '../utils/http';
+import { getOrganizationContext } from '../utils/claims';
+import {
+  ScalekitError,
+  SessionExpiredError,
+  UserCancelledError,
+  toScalekitError,
+} from '../errors';
+import {
+  ScalekitAccessTokenOptions,
+  ScalekitAuthEvent,
+  ScalekitAuthEventListener,
+  ScalekitAuthState,
+  ScalekitConfig,
+  ScalekitDeviceLoginOptions,
+  ScalekitLoginOptions,
+  ScalekitLoginReason,
+  ScalekitLogoutOptions,
+  ScalekitReauthenticateOptions,
+  ScalekitTokens,
+  ScalekitUser,
+} from '../types';
+
+/**
+ * Refresh this long before expiry, ahead of the 60 second buffer used by areTokensExpired
+ */
+const PROACTIVE_REFRESH_LEAD_MS = 90000;
+
+/**
+ * How long a dismissed login stays resumable on Android, where the redirect can
+ * arrive as a deep link just after the browser reported a dismissal
+ */
+const DISMISSED_LOGIN_GRACE_MS = 5000;
+
+/**
+ * Longest delay setTimeout supports; longer delays overflow and fire immediately
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Listener notified whenever the auth state changes
+ */
+export type ScalekitAuthStateListener = (state: ScalekitAuthState) => void;
+
+/**
+ * Format the Authorization header value for a set of tokens
+ */
+const formatAuthorization = (tokens: ScalekitTokens): string =>
+  `${tokens.tokenType || 'Bearer'} ${tokens.accessToken}`;
+
+/**
+ * Signed-out state
+ */
+const signedOutState = (error: ScalekitError | null = null): ScalekitAuthState => ({
+  isLoading: false,
+  isAuthenticated: false,
+  user: null,
+  tokens: null,
+  error,
+  currentOrganizationId: null,
+  organizations: [],
+  deviceAuthorization: null,
+});
+
+/**
+ * Signed-in state for a session, with organization context read from the token claims
+ */
+const authenticatedState = (user: ScalekitUser | null, tokens: ScalekitTokens): ScalekitAuthState => ({
+  isLoading: false,
+  isAuthenticated: true,
+  user,
+  tokens,
+  error: null,
+  ...getOrganizationContext(tokens),
+  deviceAuthorization: null,
+});
+
+/**
+ * ScalekitClient Class
+ *
+ * Owns the auth state and the login → code exchange → user sequence, so axios
+ * interceptors, Redux sagas or background tasks can use the same session as React.
+ */
+export class ScalekitClient {
+  /** Underlying auth service */
+  readonly auth: ScalekitAuth;
+
+  private state: ScalekitAuthState = {
+    isLoading: true,
+    isAuthenticated: false,
+    user: null,
+    tokens: null,
+    error: null,
+    currentOrganizationId: null,
+    organizations: [],
+    deviceAuthorization: null,
+  };
+  private listeners = new Set<ScalekitAuthStateListener>();
+  private eventListeners = new Set<ScalekitAuthEventListener>();
+  private initPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<ScalekitTokens> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingLoginTimer: ReturnType<typeof setTimeout> | null = null;
+  private broadcast: AuthBroadcast | null = null;
+  private linkingSubscription: { remove(): void } | null = null;
+  private authorizing = false;
+  private resumingUrl: string | null = null;
+  private deviceLogin: AbortController | null = null;
+  private active = false;
+
+  constructor(private config: ScalekitConfig) {
+    this.auth = new ScalekitAuth(config);
+  }
+
+  /**
+   * Get the current auth state
+   *
+   * Bound so it can be passed directly to useSyncExternalStore.
+   */
+  getState = (): ScalekitAuthState => this.state;
+
+  /**
+   * Subscribe to auth state changes; returns an unsubscribe function
+   *
+   * Bound so it can be passed directly to useSyncExternalStore.
+   */
+  subscribe = (listener: ScalekitAuthStateListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Subscribe to auth lifecycle events; returns an unsubscribe function
+   *
+   * Unlike subscribe(), listeners receive what happened (login, logout, refresh,
+   * expiry, errors) rather than the resulting state, for side effects such as
+   * clearing caches or identifying the user in analytics.
+   */
+  onAuthStateChange = (listener: ScalekitAuthEventListener): (() => void) => {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Load the stored session and start background work (token refresh, tab sync,
+   * completing logins from incoming deep links)
+   *
+   * Safe to call more than once; the stored session is only loaded the first time.
+   */
+  initialize(): Promise<void> {
+    if (!this.active) {
+      this.active = true;
+      this.broadcast = createAuthBroadcast(
+        `scalekit_auth_${this.config.envUrl}_${this.config.clientId}`,
+        () => {
+          this.syncFromStorage().catch((error) => {
+            console.error('[Scalekit] Error syncing auth state across tabs:', error);
+          });
+        }
+      );
+      if (!isWeb) {
+        this.linkingSubscription = Linking.addEventListener('url', ({ url }) => {
+          this.resumeLogin(url).catch((error) => {
+            console.error('[Scalekit] Error completing login from deep link:', error);
+          });
+        });
+      }
+      this.scheduleRefresh();
+    }
+
+    if (!this.initPromise) {
+      this.initPromise = this.loadSession();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Stop background work; initialize() restarts it
+   */
+  destroy(): void {
+    this.active = false;
+    this.broadcast?.close();
+    this.broadcast = null;
+    this.linkingSubscription?.remove();
+    this.linkingSubscription = null;
+    this.cancelDeviceLogin();
+    this.clearRefreshTimer();
+    if (this.pendingLoginTimer) {
+      this.clearPendingLoginTimer();
+      this.auth.clearPendingLogin();
+    }
+  }
+
+  /**
+   * Initiate login flow - opens browser for authentication
+   */
+  async login(options?: ScalekitLoginOptions): Promise<void> {
+    try {
+      this.setState({ ...this.state, isLoading: true, error: null });
+
+      const tokens = await this.authorize(options);
+      if (tokens) {
+        await this.completeLogin(tokens, 'login');
+      }
+    } catch (error) {
+      // Dismissing the browser and declining consent (access_denied) are both cancellations
+      if (error instanceof ScalekitError && error.code === 'user_cancelled') {
+        this.fail(error, { ...this.state, isLoading: false, error });
+        return;
+      }
+      console.error('[Scalekit] Login error:', error);
+      this.fail(toScalekitError(error, 'Login failed'));
+    }
+  }
+
+  /**
+   * Log in on a TV or other input-constrained device with a user code (RFC 8628)
+   *
+   * `deviceAuthorization` in the state holds the code to display until the user
+   * approves the login on another device. A new call or cancelDeviceLogin() stops
+   * the previous one.
+   */
+  async loginWithDeviceCode(options: ScalekitDeviceLoginOptions = {}): Promise<void> {
+    this.cancelDeviceLogin();
+    const controller = new AbortController();
+    this.deviceLogin = controller;
+    options.signal?.addEventListener('abort', () => controller.abort());
+
+    try {
+      this.setState({ ...this.state, error: null, deviceAuthorization: null });
+
+      const tokens = await this.auth.loginWithDeviceCode({
+        ...options,
+        signal: controller.signal,
+        onDeviceCode: (deviceAuthorization) => {
+          this.setState({ ...this.state, deviceAuthorization });
+          options.onDeviceCode?.(deviceAuthorization);
+        },
+      });
+      await this.completeLogin(tokens, 'login');
+    } catch (error) {
+      if (error instanceof ScalekitError && error.code === 'user_cancelled') {
+        if (this.deviceLogin && this.deviceLogin !== controller) {
+          // Replaced by a newer device login, which owns the state now
+          return;
+        }
+        this.fail(error, { ...this.state, error, deviceAuthorization: null });
+        return;
+      }
+      this.fail(toScalekitError(error, 'Login failed'));
+    } finally {
+      if (this.deviceLogin === controller) {
+        this.deviceLogin = null;
+      }
+    }
+  }
+
+  /**
+   * Stop waiting for a device code login
+   */
+  cancelDeviceLogin(): void {
+    this.deviceLogin?.abort();
+    this.deviceLogin = null;
+  }
+
+  /**
+   * Switch the session to another organization
+   *
+   * Tokens are first requested silently with the refresh token; if the server
+   * does not issue tokens for the target organization, an interactive login is
+   * started instead. The choice is remembered for future logins and refreshes.
+   * Errors are thrown and leave the current session in place.
+   */
+  async switchOrganization(organizationId: string): Promise<void> {
+    if (!this.state.isAuthenticated) {
+      throw new ScalekitError('token_expired', 'No active session');
+    }
+    if (this.state.currentOrganizationId === organizationId) {
+      return;
+    }
+
+    if (this.state.tokens?.refreshToken) {
+      try {
+        const tokens = await this.auth.refreshTokensForOrganization(organizationId);
+        await this.applyRefreshedTokens(tokens);
+        if (this.state.currentOrganizationId === organizationId) {
+          await this.auth.setSelectedOrganizationId(organizationId);
+          return;
+        }
+      } catch (error) {
+        if (toScalekitError(error, 'Organization switch failed').code === 'network_error') {
+          throw error;
+        }
+        // Fall back to an interactive login
+      }
+    }
+
+    // A web full-page redirect resolves to null and completes when the app reloads
+    const tokens = await this.authorize({ organizationId });
+    await this.auth.setSelectedOrganizationId(organizationId);
+    if (tokens) {
+      await this.completeLogin(tokens, 'login');
+    }
+  }
+
+  /**
+   * Ask the signed-in user to authenticate again before a sensitive action
+   *
+   * Runs an interactive login with `prompt=login` and `max_age`, and only accepts
+   * an ID token for the same user whose `auth_time` (and `acr`, with acrValues)
+   * meets the requirement. The session is then updated with the new tokens.
+   * Errors are thrown and leave the current session in place.
+   */
+  async reauthenticate(options: ScalekitReauthenticateOptions = {}): Promise<void> {
+    const { isAuthenticated, user } = this.state;
+    if (!isAuthenticated || !user) {
+      throw new ScalekitError('token_expired', 'No active session');
+    }
+
+    const maxAge = options.maxAge ?? 0;
+    // A web full-page redirect resolves to null and completes when the app reloads
+    const tokens = await this.authorize(
+      { prompt: 'login', maxAge, acrValues: options.acrValues, loginHint: user.email },
+      { subject: user.sub, maxAge, acrValues: options.acrValues }
+    );
+    if (tokens) {
+      await this.completeLogin(tokens, 'reauthenticated');
+    }
+  }
+
+  /**
+   * Complete a login from an authorization redirect URL
+   */
+  async handleRedirect(url: string): Promise<void> {
+    try {
+      this.setState({ ...this.state, isLoading: true, error: null });
+      const tokens = await this.auth.handleCallback(url);
+      await this.completeLogin(tokens, 'login');
+    } catch (error) {
+      if (error instanceof ScalekitError && error.code === 'user_cancelled') {
+        this.fail(error, { ...this.state, isLoading: false, error });
+        return;
+      }
+      console.error('[Scalekit] Error handling redirect:', error);
+      this.fail(toScalekitError(error, 'Login failed'));
+    }
+  }
+
+  /**
+   * Logout current user and clear session
+   */
+  async logout(options?: ScalekitLogoutOptions): Promise<void> {
+    try {
+      this.setState({ ...this.state, isLoading: true });
+      await this.auth.logout(options);
+      this.setState(signedOutState());
+      this.broadcast?.post('logout');
+      this.emit({ type: 'logout', reason: 'user' });
+    } catch (error) {
+      console.error('[Scalekit] Logout error:', error);
+      const logoutError = toScalekitError(error, 'Failed to logout');
+      this.fail(logoutError, { ...this.state, isLoading: false, error: logoutError });
+    }
+  }
+
+  /**
+   * Refresh user information from the stored ID token
+   */
+  async refreshUser(): Promise<void> {
+    const { tokens } = this.state;
+    if (!tokens || !tokens.idToken) {
+      throw new ScalekitError('token_expired', 'No active session');
+    }
+
+    try {
+      const user = await this.auth.getUserInfo(tokens.idToken);
+      this.setState({ ...this.state, user });
+    } catch (error) {
+      console.error('[Scalekit] Error refreshing user info:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange the refresh token for new tokens
+   */
+  async refreshTokens(): Promise<void> {
+    await this.refreshSession();
+  }
+
+  /**
+   * Get current access token, refreshing it first if it has expired
+   *
+   * With an audience, returns a token for that API instead, cached per audience
+   * and scopes. Resolves to null when signed out; throws if the audience token
+   * cannot be issued.
+   */
+  async getAccessToken(options?: ScalekitAccessTokenOptions): Promise<string | null> {
+    const tokens = await this.getValidTokens();
+    if (!tokens || !options?.audience) {
+      return tokens?.accessToken ?? null;
+    }
+
+    const audienceTokens = await this.auth.getAudienceTokens(options, tokens.accessToken);
+    return audienceTokens.accessToken;
+  }
+
+  /**
+   * Get the Authorization header value (`<tokenType> <accessToken>`) for the current session
+   */
+  async getAuthorizationHeader(): Promise<string | null> {
+    const tokens = await this.getValidTokens();
+    return tokens ? formatAuthorization(tokens) : null;
+  }
+
+  /**
+   * Recover from a 401 `invalid_token` response by refreshing the access token
+   *
+   * Parallel requests rejected with the same token share one refresh. Resolves to
+   * the Authorization header to retry with, or null after signing out when the
+   * session cannot be recovered.
+   */
+  async handleInvalidToken(rejectedAuthorization: string): Promise<string | null> {
+    const tokens = await this.auth.getStoredTokens();
+    if (!tokens) {
+      return null;
+    }
+
+    // Another request already refreshed the token
+    if (formatAuthorization(tokens) !== rejectedAuthorization && !this.auth.areTokensExpired(tokens)) {
+      return formatAuthorization(tokens);
+    }
+
+    if (!tokens.refreshToken) {
+      await this.expireSession(new SessionExpiredError());
+      return null;
+    }
+
+    try {
+      return formatAuthorization(await this.refreshSession());
+    } catch {
+      // refreshSession already signed out or reported the error
+      return null;
+    }
+  }
+
+  /**
+   * Create the DPoP proof for an API request made with an Authorization header
+   * from getAuthorizationHeader()
+   *
+   * Resolves to null when `dpop` is disabled or the access token is a plain
+   * bearer token, in which case no `DPoP` header should be sent.
+   */
+  async getDPoPHeader(method: string, url: string, authorization: string): Promise<string | null> {
+    const [scheme, accessToken] = authorization.split(' ');
+    if (!this.auth.dpop || scheme !== 'DPoP' || !accessToken) {
+      return null;
+    }
+    return this.auth.dpop.createProof(method, url, accessToken);
+  }
+
+  /**
+   * Remember the `DPoP-Nonce` header an API returned for later proofs
+   *
+   * Returns true if the nonce changed, so a request rejected with
+   * `use_dpop_nonce` can be retried.
+   */
+  updateDPoPNonce(url: string, nonce: string | null | undefined): boolean {
+    return this.auth.dpop?.updateNonce(url, nonce) ?? false;
+  }
+
+  /**
+   * fetch with the access token attached, retrying once after a refresh on `invalid_token`
+   *
+   * DPoP-bound tokens are sent with a proof. Bound so it can be passed wherever a
+   * fetch implementation is expected.
+   */
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const authorization = await this.getAuthorizationHeader();
+    if (!authorization) {
+      throw new ScalekitError('token_expired', 'No active session');
+    }
+
+    const response = await this.sendAuthorized(url, init, authorization);
+    if (!isInvalidTokenChallenge(response.status, response.headers.get('WWW-Authenticate'))) {
+      return response;
+    }
+
+    const retryAuthorization = await this.handleInvalidToken(authorization);
+    if (!retryAuthorization) {
+      return response;
+    }
+    return this.sendAuthorized(url, init, retryAuthorization);
+  };
+
+  /**
+   * Send a request with an Authorization header (and DPoP proof), retrying once
+   * with a new nonce on a `use_dpop_nonce` challenge
+   */
+  private async sendAuthorized(
+    url: string,
+    init: RequestInit,
+    authorization: string
+  ): Promise<Response> {
+    const send = async (): Promise<Response> => {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', authorization);
+      const proof = await this.getDPoPHeader(init.method ?? 'GET', url, authorization);
+      if (proof) {
+        headers.set('DPoP', proof);
+      }
+      return request(url, { ...init, headers });
+    };
+
+    const response = await send();
+    if (
+      this.updateDPoPNonce(url, response.headers.get('DPoP-Nonce')) &&
+      isDPoPNonceChallenge(response.status, response.headers.get('WWW-Authenticate'))
+    ) {
+      return send();
+    }
+    return response;
+  }
+
+  /**
+   * Get stored tokens, refreshing them first if they have expired
+   */
+  private async getValidTokens(): Promise<ScalekitTokens | null> {
+    const tokens = await this.auth.getStoredTokens();
+    if (!tokens) {
+      return null;
+    }
+    if (!this.auth.areTokensExpired(tokens)) {
+      return tokens;
+    }
+    if (!tokens.refreshToken) {
+      return null;
+    }
+
+    try {
+      return await this.refreshSession();
+    } catch {
+      // refreshSession already signed out or reported the error
+      return null;
+    }
+  }
+
+  /**
+   * Refresh the tokens and update the session, sharing one run between concurrent callers
+   *
+   * State, the cross-tab broadcast and events are updated once per refresh, on
+   * success or failure, however many callers are waiting for it.
+   */
+  private refreshSession(): Promise<ScalekitTokens> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<ScalekitTokens> {
+    try {
+      const tokens = await this.auth.refreshTokens();
+      await this.applyRefreshedTokens(tokens);
+      return tokens;
+    } catch (error) {
+      await this.handleRefreshFailure(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the state and notify listeners
+   */
+  private setState(state: ScalekitAuthState): void {
+    const tokensChanged = state.tokens !== this.state.tokens;
+    this.state = state;
+
+    if (tokensChanged) {
+      this.scheduleRefresh();
+    }
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Notify event listeners; a throwing listener does not affect the auth flow or other listeners
+   */
+  private emit(event: ScalekitAuthEvent): void {
+    this.eventListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[Scalekit] Error in ${event.type} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Surface an error in state (signed out by default) and to event listeners
+   */
+  private fail(error: ScalekitError, state: ScalekitAuthState = signedOutState(error)): void {
+    this.setState(state);
+    this.emit({ type: 'error', error });
+  }
+
+  /**
+   * Initialize auth state from stored credentials
+   */
+  private async loadSession(): Promise<void> {
+    try {
+      // Finish a web full-page redirect login
+      const redirectTokens = await this.auth.completeWebRedirect();
+      if (redirectTokens) {
+        await this.completeLogin(redirectTokens, 'login');
+        return;
+      }
+
+      // Finish a native login interrupted by the app being killed
+      const initialUrl = isWeb ? null : await Linking.getInitialURL();
+      if (initialUrl && (await this.resumeLogin(initialUrl))) {
+        return;
+      }
+
+      const storedTokens = await this.auth.getStoredTokens();
+      const storedUser = await this.auth.getStoredUserInfo();
+
+      if (storedTokens && storedUser && !this.auth.areTokensExpired(storedTokens)) {
+        // Valid session exists
+        this.restoreSession(storedUser, storedTokens);
+        return;
+      }
+
+      if (storedTokens && storedUser && storedTokens.refreshToken) {
+        // Expired session that can be renewed
+        try {
+          const tokens = await this.auth.refreshTokens();
+          const user = await this.applyRefreshedTokens(tokens);
+          if (user) {
+            this.emit({ type: 'login', user, tokens, reason: 'restored' });
+          }
+          return;
+        } catch (error) {
+          if (await this.auth.getStoredTokens()) {
+            // Refresh failed transiently - keep the session and retry on next use
+            this.restoreSession(storedUser, storedTokens);
+            return;
+          }
+        }
+      }
+
+      // No valid session
+      if (storedTokens || storedUser) {
+        // Clean up expired tokens
+        await this.auth.logout({ revokeTokens: false });
+      }
+      this.setState(signedOutState());
+      if (storedTokens) {
+        this.emit({ type: 'session_expired', error: new SessionExpiredError() });
+        this.emit({ type: 'logout', reason: 'session_expired' });
+      }
+    } catch (error) {
+      console.error('[Scalekit] Error initializing auth:', error);
+      this.fail(toScalekitError(error, 'Failed to initialize authentication'));
+    }
+  }
+
+  /**
+   * Run the interactive authorization flow and exchange the code for tokens
+   *
+   * Resolves to null when a web full-page redirect is in progress; it is completed
+   * when the app reloads on the callback.
+   */
+  private async authorize(
+    options?: ScalekitLoginOptions,
+    verification?: Omit<IdTokenVerificationOptions, 'nonce'>
+  ): Promise<ScalekitTokens | null> {
+    // The auth session delivers the redirect itself; don't also handle it as a deep link
+    this.authorizing = true;
+    // A new login replaces the record a dismissed one kept around
+    this.clearPendingLoginTimer();
+    try {
+      // Start OAuth flow with PKCE
+      const result = await this.auth.login(options, verification);
+
+      if (result.type === 'success' && result.url) {
+        // Validate state, surface redirect errors and exchange the code for tokens
+        return await this.auth.handleCallback(result.url);
+      }
+      if (result.type === 'opened') {
+        return null;
+      }
+
+      if (result.type === 'dismiss' || result.type === 'cancel') {
+        if (Platform.OS === 'android') {
+          // Keep the pending login briefly so resumeLogin() can complete a late redirect
+          this.pendingLoginTimer = setTimeout(() => {
+            this.pendingLoginTimer = null;
+            this.auth.clearPendingLogin();
+          }, DISMISSED_LOGIN_GRACE_MS);
+        } else {
+          await this.auth.clearPendingLogin();
+        }
+        throw new UserCancelledError();
+      }
+      await this.auth.clearPendingLogin();
+      throw new ScalekitError('authorization_failed', 'Authentication was not successful');
+    } finally {
+      this.authorizing = false;
+    }
+  }
+
+  /**
+   * Complete a login whose auth session was lost, e.g. because the OS killed the
+   * app while the browser was open and the redirect cold-started it
+   *
+   * Resolves to true if the URL was the callback of the pending login.
+   */
+  private async resumeLogin(url: string): Promise<boolean> {
+    if (this.authorizing || this.resumingUrl === url) {
+      return false;
+    }
+
+    this.resumingUrl = url;
+    try {
+      if (!(await this.auth.isPendingCallback(url))) {
+        return false;
+      }
+      this.clearPendingLoginTimer();
+      await this.handleRedirect(url);
+      return true;
+    } finally {
+      this.resumingUrl = null;
+    }
+  }
+
+  /**
+   * Update state with a stored session loaded on startup
+   */
+  private restoreSession(user: ScalekitUser, tokens: ScalekitTokens): void {
+    this.setState(authenticatedState(user, tokens));
+    this.emit({ type: 'login', user, tokens, reason: 'restored' });
+  }
+
+  /**
+   * Update state after a successful code exchange
+   */
+  private async completeLogin(tokens: ScalekitTokens, reason: ScalekitLoginReason): Promise<void> {
+    // Get user information from id_token
+    if (!tokens.idToken) {
+      throw new ScalekitError('invalid_id_token', 'No id_token received from Scalekit');
+    }
+    const user = await this.auth.getUserInfo(tokens.idToken);
+
+    this.setState(authenticatedState(user, tokens));
+    this.broadcast?.post('login');
+    this.emit({ type: 'login', user, tokens, reason });
+  }
+
+  /**
+   * Update state with freshly refreshed tokens, re-reading user info from the id_token
+   */
+  private async applyRefreshedTokens(tokens: ScalekitTokens): Promise<ScalekitUser | null> {
+    const user = tokens.idToken
+      ? await this.auth.getUserInfo(tokens.idToken)
+      : await this.auth.getStoredUserInfo();
+
+    this.setState(authenticatedState(user, tokens));
+    this.broadcast?.post('refresh');
+    this.emit({ type: 'token_refreshed', user, tokens });
+    return user;
+  }
+
+  /**
+   * Sign out locally if a failed refresh left no recoverable session
+   *
+   * Stored tokens are only cleared when the server rejected the refresh token,
+   * so transient (e.g. network) failures keep the user signed in.
+   */
+  private async handleRefreshFailure(error: unknown): Promise<void> {
+    const storedTokens = await this.auth.getStoredTokens();
+    if (storedTokens) {
+      this.emit({ type: 'error', error: toScalekitError(error, 'Failed to refresh tokens') });
+      return;
+    }
+
+    await this.expireSession(new SessionExpiredError(error));
+  }
+
+  /**
+   * Clear the local session after it became unrecoverable
+   */
+  private async expireSession(error: SessionExpiredError): Promise<void> {
+    await this.auth.logout({ revokeTokens: false });
+    this.setState(signedOutState(error));
+    this.broadcast?.post('logout');
+    this.emit({ type: 'session_expired', error });
+    this.emit({ type: 'logout', reason: 'session_expired' });
+  }
+
+  /**
+   * Update state from storage after another browser tab signed in or out
+   */
+  private async syncFromStorage(): Promise<void> {
+    const [tokens, user] = await Promise.all([
+      this.auth.getStoredTokens(),
+      this.auth.getStoredUserInfo(),
+    ]);
+
+    const wasAuthenticated = this.state.isAuthenticated;
+    if (tokens && user) {
+      this.setState(authenticatedState(user, tokens));
+      if (!wasAuthenticated) {
+        this.emit({ type: 'login', user, tokens, reason: 'sync' });
+      }
+    } else {
+      this.setState(signedOutState());
+      if (wasAuthenticated) {
+        this.emit({ type: 'logout', reason: 'sync' });
+      }
+    }
+  }
+
+  /**
+   * Schedule a proactive refresh shortly before the access token expires
+   */
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+
+    const { tokens } = this.state;
+    // Sessions stored before expires_in was defaulted can hold a NaN (null once persisted) expiry
+    if (!this.active || !tokens?.refreshToken || !Number.isFinite(tokens.expiresAt)) {
+      return;
+    }
+
+    const delay = Math.max(tokens.expiresAt - PROACTIVE_REFRESH_LEAD_MS - Date.now(), 0);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      // A capped delay fires early, so wait again until the refresh is actually due
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.scheduleRefresh();
+        return;
+      }
+      // Failures are logged by the auth service; getAccessToken retries on demand
+      this.refreshTokens().catch(() => undefined);
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private clearPendingLoginTimer(): void {
+    if (this.pendingLoginTimer) {
+      clearTimeout(this.pendingLoginTimer);
+      this.pendingLoginTimer = null;
+    }
+  }
+}
+
+/**
+ * Create a headless Scalekit client
+ *
+ * @example
+ * ```ts
+ * export const scalekit = createScalekitClient({
+ *   envUrl: 'https://your-env.scalekit.com',
+ *   clientId: 'your_client_id',
+ * });
+ * await scalekit.initialize();
+ *
+ * axios.interceptors.request.use(async (request) => {
+ *   const token = await scalekit.getAccessToken();
+ *   if (token) request.headers.Authorization = `Bearer ${token}`;
+ *   return request;
+ * });
+ * ```
+ */
+export const createScalekitClient = (config: ScalekitConfig): ScalekitClient =>
+  new ScalekitClient(config);
@@ -0,0 +1,179 @@
+/**
+ * @scalekit-sdk/expo - DPoP
+ *
+ * Creates DPoP proofs (RFC 9449) that bind tokens to a per-install key pair
+ */
+
+import * as Crypto from 'expo-crypto';
+import { BigInteger, KEYUTIL, KJUR, hextob64u } from 'jsrsasign';
+import { ScalekitStorage } from '../types';
+
+// Storage key for the persisted key pair
+const DPOP_KEY_STORAGE_KEY = 'scalekit_dpop_key';
+
+// Order of the P-256 curve
+const P256_ORDER = 'ffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551';
+
+/**
+ * Public part of the key pair, embedded in every proof
+ */
+interface DPoPPublicJwk {
+  kty: 'EC';
+  crv: 'P-256';
+  x: string;
+  y: string;
+}
+
+/**
+ * Key pair as persisted in storage
+ */
+interface DPoPPrivateJwk extends DPoPPublicJwk {
+  d: string;
+}
+
+/**
+ * Loaded key pair
+ */
+interface DPoPKey {
+  signer: KJUR.crypto.ECDSA;
+  publicJwk: DPoPPublicJwk;
+  thumbprint: string;
+}
+
+// The jsrsasign typings omit these members
+const BigIntegerFromHex = BigInteger as unknown as new (value: string, radix: number) => BigInteger;
+type ECDSAInternals = {
+  generatePublicKeyHex(): string;
+  getBigRandom(limit: BigInteger): BigInteger;
+};
+
+/**
+ * Random integer in [1, limit - 1] as hex, drawn from expo-crypto
+ *
+ * jsrsasign seeds its own generator from `crypto.getRandomValues`, which React
+ * Native lacks, so private keys and ECDSA nonces are never left to it.
+ */
+const randomScalarHex = (limitHex: string): string => {
+  const limit = BigInt(`0x${limitHex}`);
+  // 64 extra random bits make the modulo bias negligible
+  const bytes = Crypto.getRandomBytes(limitHex.length / 2 + 8);
+  const value = BigInt(`0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`);
+  return ((value % (limit - BigInt(1))) + BigInt(1)).toString(16).padStart(limitHex.length, '0');
+};
+
+/**
+ * Generate a P-256 key pair as a JWK
+ */
+const generateKeyJwk = (): DPoPPrivateJwk => {
+  const prvKeyHex = randomScalarHex(P256_ORDER);
+  const key = new KJUR.crypto.ECDSA({ curve: 'secp256r1', prv: prvKeyHex });
+  (key as unknown as ECDSAInternals).generatePublicKeyHex();
+  const { x, y } = key.getPublicKeyXYHex();
+
+  return { kty: 'EC', crv: 'P-256', x: hextob64u(x), y: hextob64u(y), d: hextob64u(prvKeyHex) };
+};
+
+/**
+ * Scheme, host and port of a URL, which DPoP nonces are scoped to
+ */
+const getOrigin = (url: string): string => url.match(/^[a-z][a-z\d+.-]*:\/\/[^/?#]+/i)?.[0] ?? url;
+
+/**
+ * ScalekitDPoP Service Class
+ */
+export class ScalekitDPoP {
+  private keyPromise: Promise<DPoPKey> | null = null;
+  private nonces = new Map<string, string>();
+
+  constructor(private storage: ScalekitStorage) {}
+
+  /**
+   * RFC 7638 thumbprint of the public key, sent as `dpop_jkt` to bind the authorization code
+   */
+  async getThumbprint(): Promise<string> {
+    return (await this.getKey()).thumbprint;
+  }
+
+  /**
+   * Create a DPoP proof JWT for a request
+   *
+   * @param accessToken Access token sent with the request (adds the `ath` claim)
+   */
+  async createProof(method: string, url: string, accessToken?: string): Promise<string> {
+    const { signer, publicJwk } = await this.getKey();
+
+    const payload: Record<string, unknown> = {
+      jti: Crypto.randomUUID(),
+      htm: method.toUpperCase(),
+      htu: url.split(/[?#]/)[0],
+      iat: Math.floor(Date.now() / 1000),
+    };
+    const nonce = this.nonces.get(getOrigin(url));
+    if (nonce) {
+      payload.nonce = nonce;
+    }
+    if (accessToken) {
+      payload.ath = hextob64u(KJUR.crypto.Util.sha256(accessToken));
+    }
+
+    return KJUR.jws.JWS.sign(
+      'ES256',
+      JSON.stringify({ typ: 'dpop+jwt', alg: 'ES256', jwk: publicJwk }),
+      JSON.stringify(payload),
+      signer
+    );
+  }
+
+  /**
+   * Remember the `DPoP-Nonce` a server returned for later proofs
+   *
+   * Returns true if the nonce changed, i.e. a request rejected with
+   * `use_dpop_nonce` is worth retrying.
+   */
+  updateNonce(url: string, nonce: string | null | undefined): boolean {
+    const origin = getOrigin(url);
+    if (!nonce || nonce === this.nonces.get(origin)) {
+      return false;
+    }
+    this.nonces.set(origin, nonce);
+    return true;
+  }
+
+  /**
+   * Load the persisted key pair, generating one on first use
+   */
+  private getKey(): Promise<DPoPKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadKey().catch((error) => {
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async loadKey(): Promise<DPoPKey> {
+    let jwk: DPoPPrivateJwk | null = null;
+    try {
+      const json = await this.storage.getItem(DPOP_KEY_STORAGE_KEY);
+      jwk = json ? JSON.parse(json) : null;
+    } catch (error) {
+      console.error('[Scalekit] Error reading DPoP key, generating a new one:', error);
+    }
+    if (!jwk) {
+      jwk = generateKeyJwk();
+      await this.storage.setItem(DPOP_KEY_STORAGE_KEY, JSON.stringify(jwk));
+    }
+
+    const signer = KEYUTIL.getKey(jwk as unknown as KJUR.jws.JWS.JsonWebKey) as KJUR.crypto.ECDSA;
+    (signer as unknown as ECDSAInternals).getBigRandom = (limit) =>
+      new BigIntegerFromHex(randomScalarHex(limit.toString(16)), 16);
+
+    const publicJwk: DPoPPublicJwk = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+    return {
+      signer,
+      publicJwk,
+      thumbprint: KJUR.jws.JWS.getJWKthumbprint(publicJwk as unknown as KJUR.jws.JWS.JsonWebKey),
+    };
+  }
+}
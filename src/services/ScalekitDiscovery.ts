@@ -0,0 +1,207 @@
+/**
+ * @scalekit-sdk/expo - OIDC Discovery
+ *
+ * Resolves OAuth endpoints from the environment's discovery document
+ */
+
+import { request } from '../utils/http';
+import { ScalekitDiscoveryDocument, ScalekitEndpoints, ScalekitStorage } from '../types';
+
+// Storage key for the persisted discovery document
+const DISCOVERY_STORAGE_KEY = 'scalekit_discovery';
+
+// Default cache lifetime (24 hours)
+const DEFAULT_DISCOVERY_TTL = 24 * 60 * 60;
+
+// How long to keep serving the stale copy after a failed fetch before retrying (1 minute)
+const DISCOVERY_RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Discovery cache entry persisted across launches
+ */
+interface CachedDiscovery {
+  envUrl: string;
+  document: ScalekitDiscoveryDocument;
+  fetchedAt: number;
+}
+
+/**
+ * Discovery options
+ */
+export interface ScalekitDiscoveryOptions {
+  /** Static discovery document that skips fetching entirely */
+  document?: ScalekitDiscoveryDocument;
+  /** Cache lifetime in seconds */
+  ttl?: number;
+}
+
+/**
+ * ScalekitDiscovery Service Class
+ */
+export class ScalekitDiscovery {
+  private baseUrl: string;
+  private ttl: number;
+  private cached: CachedDiscovery | null = null;
+  private lastFailureAt: number | null = null;
+  private pending: Promise<ScalekitDiscoveryDocument | null> | null = null;
+
+  constructor(
+    envUrl: string,
+    private storage: ScalekitStorage,
+    private options: ScalekitDiscoveryOptions = {}
+  ) {
+    this.baseUrl = envUrl.replace(/\/+$/, '');
+    this.ttl = (options.ttl ?? DEFAULT_DISCOVERY_TTL) * 1000;
+  }
+
+  /**
+   * Get the discovery document, fetching it when the cache is empty or stale
+   *
+   * Returns null when no document could be obtained.
+   */
+  async getDocument(): Promise<ScalekitDiscoveryDocument | null> {
+    if (this.options.document) {
+      return this.options.document;
+    }
+
+    if (!this.cached) {
+      this.cached = await this.readCache();
+    }
+
+    if (this.cached && Date.now() - this.cached.fetchedAt < this.ttl) {
+      return this.cached.document;
+    }
+
+    // Back off after a failure instead of refetching on every lookup
+    if (this.lastFailureAt !== null && Date.now() - this.lastFailureAt < DISCOVERY_RETRY_INTERVAL_MS) {
+      return this.cached?.document ?? null;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchDocument().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Resolve endpoints from the discovery document, falling back to default paths
+   */
+  async getEndpoints(): Promise<ScalekitEndpoints> {
+    const document = await this.getDocument();
+    const fallback = this.getFallbackEndpoints();
+
+    if (!document) {
+      return fallback;
+    }
+
+    return {
+      issuer: document.issuer || fallback.issuer,
+      authorization: document.authorization_endpoint || fallback.authorization,
+      token: document.token_endpoint || fallback.token,
+      userinfo: document.userinfo_endpoint || fallback.userinfo,
+      revocation: document.revocation_endpoint || fallback.revocation,
+      endSession: document.end_session_endpoint || fallback.endSession,
+      deviceAuthorization: document.device_authorization_endpoint || fallback.deviceAuthorization,
+      pushedAuthorizationRequest: document.pushed_authorization_request_endpoint || null,
+      jwks: document.jwks_uri || fallback.jwks,
+    };
+  }
+
+  /**
+   * Drop the cached document so the next lookup refetches it
+   */
+  async clear(): Promise<void> {
+    this.cached = null;
+    this.lastFailureAt = null;
+    await this.storage.removeItem(DISCOVERY_STORAGE_KEY);
+  }
+
+  /**
+   * Default Scalekit endpoint paths used when discovery is unavailable
+   */
+  private getFallbackEndpoints(): ScalekitEndpoints {
+    return {
+      issuer: this.baseUrl,
+      authorization: `${this.baseUrl}/oauth/authorize`,
+      token: `${this.baseUrl}/oauth/token`,
+      userinfo: `${this.baseUrl}/userinfo`,
+      revocation: `${this.baseUrl}/oauth/revoke`,
+      endSession: `${this.baseUrl}/oidc/logout`,
+      deviceAuthorization: `${this.baseUrl}/oauth/device/code`,
+      // Only used when advertised, so there is no default path
+      pushedAuthorizationRequest: null,
+      jwks: `${this.baseUrl}/keys`,
+    };
+  }
+
+  /**
+   * Fetch the discovery document and persist it
+   *
+   * Falls back to a stale cached copy if the request fails, and keeps serving it
+   * for a short while before the next attempt.
+   */
+  private async fetchDocument(): Promise<ScalekitDiscoveryDocument | null> {
+    try {
+      const response = await request(`${this.baseUrl}/.well-known/openid-configuration`, {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Discovery request failed with status ${response.status}`);
+      }
+
+      const document = (await response.json()) as ScalekitDiscoveryDocument;
+      this.cached = { envUrl: this.baseUrl, document, fetchedAt: Date.now() };
+      this.lastFailureAt = null;
+      await this.writeCache(this.cached);
+
+      return document;
+    } catch (error) {
+      console.warn('[Scalekit] OIDC discovery failed, using default endpoints:', error);
+      this.lastFailureAt = Date.now();
+      return this.cached?.document ?? null;
+    }
+  }
+
+  /**
+   * Read the persisted discovery document
+   */
+  private async readCache(): Promise<CachedDiscovery | null> {
+    try {
+      const cachedJson = await this.storage.getItem(DISCOVERY_STORAGE_KEY);
+      const cached: CachedDiscovery | null = cachedJson ? JSON.parse(cachedJson) : null;
+      // Ignore documents cached for a different environment
+      return cached?.envUrl === this.baseUrl ? cached : null;
+    } catch (error) {
+      console.error('[Scalekit] Error reading cached discovery document:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist the discovery document, keeping only the metadata the SDK uses
+   */
+  private async writeCache(entry: CachedDiscovery): Promise<void> {
+    const document: ScalekitDiscoveryDocument = {
+      issuer: entry.document.issuer,
+      authorization_endpoint: entry.document.authorization_endpoint,
+      token_endpoint: entry.document.token_endpoint,
+    };
+    for (const [key, value] of Object.entries(entry.document)) {
+      if (key === 'jwks_uri' || key.endsWith('_endpoint')) {
+        document[key] = value;
+      }
+    }
+
+    try {
+      await this.storage.setItem(
+        DISCOVERY_STORAGE_KEY,
+        JSON.stringify({ ...entry, document })
+      );
+    } catch (error) {
+      console.error('[Scalekit] Error caching discovery document:', error);
+    }
+  }
+}
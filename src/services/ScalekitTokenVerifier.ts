@@ -0,0 +1,234 @@
+/**
+ * @scalekit-sdk/expo - ID Token Verification
+ *
+ * Verifies ID token signatures against the environment's JWKS and checks standard claims
+ */
+
+import { KEYUTIL, KJUR, RSAKey } from 'jsrsasign';
+import { ScalekitDiscovery } from './ScalekitDiscovery';
+import { decodeJwt } from '../utils/jwt';
+import { request } from '../utils/http';
+import {
+  IdTokenVerificationError,
+  InsufficientAuthenticationError,
+  ScalekitError,
+} from '../errors';
+import { ScalekitUser } from '../types';
+
+// Signing algorithms accepted for ID tokens, mapped to the JWK key type they require
+const SUPPORTED_ALGORITHMS: Record<string, string> = {
+  RS256: 'RSA',
+  ES256: 'EC',
+};
+
+/**
+ * JSON Web Key as published in the JWKS document
+ */
+interface Jwk {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Token verifier options
+ */
+export interface ScalekitTokenVerifierOptions {
+  /** Expected audience */
+  clientId: string;
+  /** Allowed clock skew in seconds */
+  clockSkew: number;
+}
+
+/**
+ * Per-token verification options
+ */
+export interface IdTokenVerificationOptions {
+  /** Nonce sent in the authorization request, if any */
+  nonce?: string;
+  /** Required subject, e.g. the signed-in user when re-authenticating */
+  subject?: string;
+  /** Maximum seconds since the user authenticated (checked against auth_time) */
+  maxAge?: number;
+  /** Accepted authentication context classes (checked against acr) */
+  acrValues?: string[];
+}
+
+/**
+ * ScalekitTokenVerifier Service Class
+ */
+export class ScalekitTokenVerifier {
+  private keys: Jwk[] = [];
+  private keysPromise: Promise<Jwk[]> | null = null;
+
+  constructor(
+    private discovery: ScalekitDiscovery,
+    private options: ScalekitTokenVerifierOptions
+  ) {}
+
+  /**
+   * Verify an ID token and return its claims
+   *
+   * @throws IdTokenVerificationError if the signature or any claim is invalid
+   */
+  async verifyIdToken(
+    idToken: string,
+    verificationOptions: IdTokenVerificationOptions = {}
+  ): Promise<ScalekitUser> {
+    let header: Record<string, any>;
+    let claims: ScalekitUser;
+    try {
+      ({ header, payload: claims } = decodeJwt<ScalekitUser>(idToken));
+    } catch (error) {
+      throw new IdTokenVerificationError('Malformed id_token');
+    }
+
+    const keyType = SUPPORTED_ALGORITHMS[header.alg];
+    if (!keyType) {
+      throw new IdTokenVerificationError(`Unsupported id_token signing algorithm: ${header.alg}`);
+    }
+
+    if (!(await this.verifySignature(idToken, header, keyType))) {
+      throw new IdTokenVerificationError('Invalid id_token signature');
+    }
+
+    const { issuer } = await this.discovery.getEndpoints();
+    this.verifyClaims(claims, issuer, verificationOptions);
+
+    return claims;
+  }
+
+  /**
+   * Verify the token signature, refetching the JWKS once if the key is unknown
+   */
+  private async verifySignature(
+    idToken: string,
+    header: Record<string, any>,
+    keyType: string
+  ): Promise<boolean> {
+    let candidates = this.findKeys(this.keys, header.kid, keyType);
+
+    // Unknown key id - the signing key may have rotated
+    if (candidates.length === 0) {
+      this.keys = await this.fetchKeys();
+      candidates = this.findKeys(this.keys, header.kid, keyType);
+    }
+
+    if (candidates.length === 0) {
+      throw new IdTokenVerificationError(
+        `No matching signing key found for id_token${header.kid ? ` (kid: ${header.kid})` : ''}`
+      );
+    }
+
+    return candidates.some((jwk) => {
+      try {
+        const key = KEYUTIL.getKey(jwk as unknown as KJUR.jws.JWS.JsonWebKey) as
+          | RSAKey
+          | KJUR.crypto.ECDSA;
+        return KJUR.jws.JWS.verify(idToken, key, [header.alg]);
+      } catch (error) {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Check iss, aud, azp, exp, iat and nonce claims, plus sub, auth_time and acr when required
+   */
+  private verifyClaims(
+    claims: ScalekitUser,
+    issuer: string,
+    verificationOptions: IdTokenVerificationOptions
+  ): void {
+    const now = Math.floor(Date.now() / 1000);
+    const { clientId, clockSkew } = this.options;
+
+    if (claims.iss !== issuer) {
+      throw new IdTokenVerificationError(`Invalid id_token issuer: ${claims.iss}`);
+    }
+
+    const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(clientId)) {
+      throw new IdTokenVerificationError('id_token audience does not include this client');
+    }
+    if (audiences.length > 1 && claims.azp !== clientId) {
+      throw new IdTokenVerificationError('id_token authorized party does not match this client');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp + clockSkew < now) {
+      throw new IdTokenVerificationError('id_token has expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat - clockSkew > now) {
+      throw new IdTokenVerificationError('id_token was issued in the future');
+    }
+
+    if (verificationOptions.nonce !== undefined && claims.nonce !== verificationOptions.nonce) {
+      throw new IdTokenVerificationError('id_token nonce does not match');
+    }
+    if (verificationOptions.subject !== undefined && claims.sub !== verificationOptions.subject) {
+      throw new IdTokenVerificationError('id_token subject does not match the signed-in user');
+    }
+
+    const { maxAge, acrValues } = verificationOptions;
+    if (
+      maxAge !== undefined &&
+      (typeof claims.auth_time !== 'number' || now - claims.auth_time > maxAge + clockSkew)
+    ) {
+      throw new InsufficientAuthenticationError(
+        `The user did not authenticate within the last ${maxAge} seconds`
+      );
+    }
+    if (acrValues?.length && (!claims.acr || !acrValues.includes(claims.acr))) {
+      throw new InsufficientAuthenticationError(
+        `Authentication context ${claims.acr ?? '(none)'} does not satisfy ${acrValues.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Find signing keys matching the token's key id and algorithm
+   */
+  private findKeys(keys: Jwk[], kid: string | undefined, keyType: string): Jwk[] {
+    return keys.filter(
+      (key) =>
+        key.kty === keyType &&
+        (key.use === undefined || key.use === 'sig') &&
+        (kid === undefined || key.kid === kid)
+    );
+  }
+
+  /**
+   * Fetch the JWKS document, sharing one request between concurrent callers
+   */
+  private fetchKeys(): Promise<Jwk[]> {
+    if (!this.keysPromise) {
+      this.keysPromise = this.requestKeys().finally(() => {
+        this.keysPromise = null;
+      });
+    }
+    return this.keysPromise;
+  }
+
+  /**
+   * Request the JWKS document
+   */
+  private async requestKeys(): Promise<Jwk[]> {
+    const { jwks } = await this.discovery.getEndpoints();
+    const response = await request(jwks, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new ScalekitError(
+        'network_error',
+        `JWKS request failed with status ${response.status}`,
+        { status: response.status }
+      );
+    }
+
+    const data = (await response.json()) as { keys?: Jwk[] };
+    return data.keys ?? [];
+  }
+}
@@ -0,0 +1,273 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { WebBrowserResultType, openAuthSessionAsync } from 'expo-web-browser';
+import { ScalekitAuth } from '../ScalekitAuth';
+import { MemoryStorage } from '../../storage/MemoryStorage';
+import { ScalekitDeviceAuthorization } from '../../types';
+import {
+  AuthorizationResponseError,
+  IdTokenVerificationError,
+  ScalekitError,
+  StateMismatchError,
+} from '../../errors';
+import {
+  CLIENT_ID,
+  ENV_URL,
+  REDIRECT_URI,
+  SigningKey,
+  createIdTokenClaims,
+  createSigningKey,
+  discoveryDocument,
+  jsonResponse,
+  signIdToken,
+} from './fixtures';
+
+jest.mock('expo-web-browser', () => ({
+  maybeCompleteAuthSession: jest.fn(),
+  openAuthSessionAsync: jest.fn(),
+  WebBrowserResultType: { OPENED: 'opened', DISMISS: 'dismiss' },
+}));
+jest.mock('expo-crypto', () => {
+  const crypto = jest.requireActual('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    getRandomBytes: (length: number) => new Uint8Array(crypto.randomBytes(length)),
+    getRandomBytesAsync: async (length: number) => new Uint8Array(crypto.randomBytes(length)),
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      crypto.createHash('sha256').update(data).digest('hex'),
+    randomUUID: () => crypto.randomUUID(),
+  };
+});
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: null },
+  ExecutionEnvironment: { StoreClient: 'storeClient' },
+}));
+jest.mock('expo-secure-store', () => ({}));
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+
+describe('ScalekitAuth.handleCallback', () => {
+  let key: SigningKey;
+  let auth: ScalekitAuth;
+  let fetchMock: jest.Mock;
+  let idTokenClaims: Record<string, unknown>;
+
+  beforeAll(() => {
+    key = createSigningKey('key-1');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.mocked(openAuthSessionAsync).mockReset().mockResolvedValue({
+      type: WebBrowserResultType.DISMISS,
+    });
+
+    idTokenClaims = createIdTokenClaims();
+    fetchMock = jest.fn(async (url: string) => {
+      if (url === discoveryDocument.jwks_uri) {
+        return jsonResponse({ keys: [key.jwk] });
+      }
+      if (url === discoveryDocument.token_endpoint) {
+        return jsonResponse({
+          access_token: 'access',
+          refresh_token: 'refresh',
+          id_token: signIdToken(key, idTokenClaims),
+          token_type: 'Bearer',
+          expires_in: 300,
+        });
+      }
+      return jsonResponse({ error: 'not_found' }, 404);
+    });
+    global.fetch = fetchMock;
+
+    auth = new ScalekitAuth({
+      envUrl: ENV_URL,
+      clientId: CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      storage: new MemoryStorage(),
+      discovery: discoveryDocument,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Start a login and return the parameters sent in the authorization URL
+   */
+  const startLogin = async (): Promise<URLSearchParams> => {
+    await auth.login();
+    const [authUrl] = jest.mocked(openAuthSessionAsync).mock.calls[0];
+    const params = new URL(authUrl).searchParams;
+    idTokenClaims.nonce = params.get('nonce');
+    return params;
+  };
+
+  const tokenRequests = (): URLSearchParams[] =>
+    fetchMock.mock.calls
+      .filter(([url]) => url === discoveryDocument.token_endpoint)
+      .map(([, init]) => new URLSearchParams(init.body));
+
+  it('exchanges the code with the PKCE verifier of the pending login', async () => {
+    const params = await startLogin();
+
+    const tokens = await auth.handleCallback(
+      `${REDIRECT_URI}?code=abc&state=${params.get('state')}`
+    );
+
+    expect(tokens.accessToken).toBe('access');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    const [tokenRequest] = tokenRequests();
+    expect(tokenRequest.get('code')).toBe('abc');
+    expect(tokenRequest.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(
+      createHash('sha256').update(tokenRequest.get('code_verifier')!).digest('base64url')
+    ).toBe(params.get('code_challenge'));
+    await expect(auth.getStoredTokens()).resolves.toMatchObject({ accessToken: 'access' });
+  });
+
+  it.each([
+    ['a different state', 'code=abc&state=forged'],
+    ['no state', 'code=abc'],
+    ['an error response with a different state', 'error=access_denied&state=forged'],
+  ])('rejects a callback with %s and keeps the pending login', async (_case, query) => {
+    const params = await startLogin();
+
+    await expect(auth.handleCallback(`${REDIRECT_URI}?${query}`)).rejects.toBeInstanceOf(
+      StateMismatchError
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // The genuine redirect can still complete the login
+    await expect(
+      auth.handleCallback(`${REDIRECT_URI}?code=abc&state=${params.get('state')}`)
+    ).resolves.toMatchObject({ accessToken: 'access' });
+  });
+
+  it('surfaces an error response once the state matches and clears the pending login', async () => {
+    const params = await startLogin();
+    const state = params.get('state');
+
+    const error = await auth
+      .handleCallback(`${REDIRECT_URI}?error=access_denied&state=${state}`)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AuthorizationResponseError);
+    expect(error).toMatchObject({ code: 'user_cancelled' });
+    await expect(
+      auth.handleCallback(`${REDIRECT_URI}?code=abc&state=${state}`)
+    ).rejects.toBeInstanceOf(StateMismatchError);
+  });
+
+  it('rejects a replayed callback', async () => {
+    const params = await startLogin();
+    const callbackUrl = `${REDIRECT_URI}?code=abc&state=${params.get('state')}`;
+
+    await auth.handleCallback(callbackUrl);
+
+    await expect(auth.handleCallback(callbackUrl)).rejects.toBeInstanceOf(StateMismatchError);
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  it('rejects an id_token with a different nonce without storing tokens', async () => {
+    const params = await startLogin();
+    idTokenClaims.nonce = randomBytes(32).toString('base64url');
+
+    await expect(
+      auth.handleCallback(`${REDIRECT_URI}?code=abc&state=${params.get('state')}`)
+    ).rejects.toThrow(new IdTokenVerificationError('id_token nonce does not match'));
+    await expect(auth.getStoredTokens()).resolves.toBeNull();
+  });
+
+  it('rejects a callback when no login is pending', async () => {
+    await expect(
+      auth.handleCallback(`${REDIRECT_URI}?code=abc&state=${randomUUID()}`)
+    ).rejects.toBeInstanceOf(StateMismatchError);
+  });
+});
+
+describe('ScalekitAuth.loginWithDeviceCode', () => {
+  let auth: ScalekitAuth;
+  let deviceResponse: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    deviceResponse = {
+      device_code: 'device-123',
+      user_code: 'ABCD-EFGH',
+      verification_uri: `${ENV_URL}/device`,
+      expires_in: 900,
+      interval: 5,
+    };
+    global.fetch = jest.fn(async () => jsonResponse(deviceResponse));
+
+    auth = new ScalekitAuth({
+      envUrl: ENV_URL,
+      clientId: CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      storage: new MemoryStorage(),
+      discovery: discoveryDocument,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Request a device code and return the authorization reported to the app
+   */
+  const requestDeviceCode = async (): Promise<ScalekitDeviceAuthorization> => {
+    const controller = new AbortController();
+    const onDeviceCode = jest.fn((_authorization: ScalekitDeviceAuthorization) =>
+      controller.abort()
+    );
+
+    await expect(
+      auth.loginWithDeviceCode({ onDeviceCode, signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'user_cancelled' });
+    return onDeviceCode.mock.calls[0][0];
+  };
+
+  it('reports the user code and expiry', async () => {
+    const before = Date.now();
+
+    const authorization = await requestDeviceCode();
+
+    expect(authorization).toMatchObject({
+      userCode: 'ABCD-EFGH',
+      verificationUri: `${ENV_URL}/device`,
+      qrCodeValue: `${ENV_URL}/device`,
+      interval: 5,
+    });
+    expect(authorization.expiresAt).toBeGreaterThanOrEqual(before + 900_000);
+  });
+
+  it.each([undefined, 'soon', -1])(
+    'defaults an invalid expires_in and interval (%p)',
+    async (value) => {
+      deviceResponse.expires_in = value;
+      deviceResponse.interval = value;
+      const before = Date.now();
+
+      const authorization = await requestDeviceCode();
+
+      expect(Number.isFinite(authorization.expiresAt)).toBe(true);
+      expect(authorization.expiresAt).toBeGreaterThan(before);
+      expect(authorization.interval).toBe(5);
+    }
+  );
+
+  it('rejects a response without the required fields', async () => {
+    delete deviceResponse.user_code;
+    deviceResponse.verification_uri = '';
+
+    await expect(auth.loginWithDeviceCode()).rejects.toThrow(
+      new ScalekitError(
+        'authorization_failed',
+        'Invalid device authorization response: missing user_code, verification_uri'
+      )
+    );
+  });
+});
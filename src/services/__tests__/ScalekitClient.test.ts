@@ -0,0 +1,127 @@
+import { ScalekitClient } from '../ScalekitClient';
+import { MemoryStorage } from '../../storage/MemoryStorage';
+import { NamespacedStorage } from '../../storage/NamespacedStorage';
+import { ScalekitAuthEvent } from '../../types';
+import { CLIENT_ID, ENV_URL, REDIRECT_URI, discoveryDocument, jsonResponse } from './fixtures';
+
+jest.mock('expo-web-browser', () => ({
+  maybeCompleteAuthSession: jest.fn(),
+  openAuthSessionAsync: jest.fn(),
+  WebBrowserResultType: { OPENED: 'opened', DISMISS: 'dismiss' },
+}));
+jest.mock('expo-crypto', () => ({}));
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: null },
+  ExecutionEnvironment: { StoreClient: 'storeClient' },
+}));
+jest.mock('expo-secure-store', () => ({}));
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  Linking: { addEventListener: jest.fn(), getInitialURL: jest.fn() },
+}));
+
+describe('ScalekitClient token refresh', () => {
+  let client: ScalekitClient;
+  let events: ScalekitAuthEvent[];
+  let tokenResponse: Response;
+  let fetchMock: jest.Mock;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    fetchMock = jest.fn(async () => tokenResponse);
+    global.fetch = fetchMock;
+
+    // Signed in with an expired access token
+    const storage = new MemoryStorage();
+    const sessionStorage = new NamespacedStorage(storage, ENV_URL, CLIENT_ID);
+    await sessionStorage.setItem(
+      'scalekit_tokens',
+      JSON.stringify({
+        accessToken: 'expired',
+        refreshToken: 'refresh-1',
+        tokenType: 'Bearer',
+        expiresIn: 300,
+        expiresAt: Date.now() - 1000,
+      })
+    );
+    await sessionStorage.setItem('scalekit_user_info', JSON.stringify({ sub: 'usr_123' }));
+
+    client = new ScalekitClient({
+      envUrl: ENV_URL,
+      clientId: CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      storage,
+      discovery: discoveryDocument,
+    });
+    events = [];
+    client.onAuthStateChange((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Every way the client refreshes, called at once
+   */
+  const refreshConcurrently = () =>
+    Promise.all([
+      client.getAccessToken(),
+      client.getAccessToken(),
+      client.getAuthorizationHeader(),
+      client.handleInvalidToken('Bearer expired'),
+      client.refreshTokens().catch((error: unknown) => error),
+    ]);
+
+  it('applies a refresh once for concurrent callers', async () => {
+    tokenResponse = jsonResponse({
+      access_token: 'fresh',
+      refresh_token: 'refresh-2',
+      token_type: 'Bearer',
+      expires_in: 300,
+    });
+
+    const results = await refreshConcurrently();
+
+    expect(results).toEqual(['fresh', 'fresh', 'Bearer fresh', 'Bearer fresh', undefined]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events.map(({ type }) => type)).toEqual(['token_refreshed']);
+    expect(client.getState()).toMatchObject({
+      isAuthenticated: true,
+      tokens: { accessToken: 'fresh' },
+    });
+  });
+
+  it('expires the session once when concurrent refreshes are rejected', async () => {
+    tokenResponse = jsonResponse({ error: 'invalid_grant' }, 400);
+
+    const results = await refreshConcurrently();
+
+    expect(results.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(results[4]).toMatchObject({ code: 'invalid_grant' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(events.map(({ type }) => type)).toEqual(['session_expired', 'logout']);
+    expect(client.getState()).toMatchObject({ isAuthenticated: false, tokens: null });
+  });
+
+  it('starts a new refresh once the previous one settled', async () => {
+    tokenResponse = jsonResponse({
+      access_token: 'fresh',
+      token_type: 'Bearer',
+      expires_in: 300,
+    });
+    await client.refreshTokens();
+
+    tokenResponse = jsonResponse({
+      access_token: 'fresher',
+      token_type: 'Bearer',
+      expires_in: 300,
+    });
+    await client.refreshTokens();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(events.map(({ type }) => type)).toEqual(['token_refreshed', 'token_refreshed']);
+  });
+});
@@ -0,0 +1,209 @@
+import { ScalekitTokenVerifier } from '../ScalekitTokenVerifier';
+import { ScalekitDiscovery } from '../ScalekitDiscovery';
+import { MemoryStorage } from '../../storage/MemoryStorage';
+import { IdTokenVerificationError, InsufficientAuthenticationError } from '../../errors';
+import {
+  CLIENT_ID,
+  ENV_URL,
+  SigningKey,
+  createIdTokenClaims,
+  createSigningKey,
+  discoveryDocument,
+  jsonResponse,
+  signIdToken,
+} from './fixtures';
+
+const base64UrlJson = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('ScalekitTokenVerifier', () => {
+  let rsaKey: SigningKey;
+  let ecKey: SigningKey;
+  let publishedKeys: SigningKey[];
+  let fetchMock: jest.Mock;
+  let verifier: ScalekitTokenVerifier;
+
+  beforeAll(() => {
+    rsaKey = createSigningKey('rsa-1');
+    ecKey = createSigningKey('ec-1', 'ES256');
+  });
+
+  beforeEach(() => {
+    publishedKeys = [rsaKey, ecKey];
+    fetchMock = jest.fn(async () => jsonResponse({ keys: publishedKeys.map((key) => key.jwk) }));
+    global.fetch = fetchMock;
+
+    const discovery = new ScalekitDiscovery(ENV_URL, new MemoryStorage(), {
+      document: discoveryDocument,
+    });
+    verifier = new ScalekitTokenVerifier(discovery, { clientId: CLIENT_ID, clockSkew: 60 });
+  });
+
+  describe('signature', () => {
+    it.each(['RS256', 'ES256'])('accepts a %s token signed by a published key', async (alg) => {
+      const key = alg === 'RS256' ? rsaKey : ecKey;
+      const claims = createIdTokenClaims();
+
+      await expect(verifier.verifyIdToken(signIdToken(key, claims))).resolves.toEqual(claims);
+      expect(fetchMock).toHaveBeenCalledWith(discoveryDocument.jwks_uri, expect.anything());
+    });
+
+    it('rejects an unsigned token', async () => {
+      const token = `${base64UrlJson({ alg: 'none', typ: 'JWT' })}.${base64UrlJson(
+        createIdTokenClaims()
+      )}.`;
+
+      await expect(verifier.verifyIdToken(token)).rejects.toThrow(
+        new IdTokenVerificationError('Unsupported id_token signing algorithm: none')
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects an algorithm outside the allowlist', async () => {
+      const token = signIdToken(rsaKey, createIdTokenClaims(), { alg: 'HS256' });
+
+      await expect(verifier.verifyIdToken(token)).rejects.toThrow(
+        new IdTokenVerificationError('Unsupported id_token signing algorithm: HS256')
+      );
+    });
+
+    it('rejects a token whose algorithm does not match the key type', async () => {
+      const token = signIdToken(rsaKey, createIdTokenClaims(), { alg: 'ES256' });
+
+      await expect(verifier.verifyIdToken(token)).rejects.toThrow(
+        new IdTokenVerificationError('No matching signing key found for id_token (kid: rsa-1)')
+      );
+    });
+
+    it('rejects a token signed by another key under a published kid', async () => {
+      const impostor = { ...createSigningKey('impostor'), kid: rsaKey.kid };
+
+      await expect(
+        verifier.verifyIdToken(signIdToken(impostor, createIdTokenClaims()))
+      ).rejects.toThrow(new IdTokenVerificationError('Invalid id_token signature'));
+    });
+
+    it('rejects a tampered payload', async () => {
+      const [header, , signature] = signIdToken(rsaKey, createIdTokenClaims()).split('.');
+      const payload = base64UrlJson(createIdTokenClaims({ sub: 'usr_other' }));
+
+      await expect(verifier.verifyIdToken(`${header}.${payload}.${signature}`)).rejects.toThrow(
+        new IdTokenVerificationError('Invalid id_token signature')
+      );
+    });
+
+    it('refetches the JWKS once when the kid is unknown', async () => {
+      await verifier.verifyIdToken(signIdToken(rsaKey, createIdTokenClaims()));
+      const rotatedKey = createSigningKey('rsa-2');
+      publishedKeys = [rotatedKey];
+
+      await expect(
+        verifier.verifyIdToken(signIdToken(rotatedKey, createIdTokenClaims()))
+      ).resolves.toBeDefined();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      // Known keys are served from memory
+      await verifier.verifyIdToken(signIdToken(rotatedKey, createIdTokenClaims()));
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a kid that is still unknown after refetching', async () => {
+      const unknownKey = createSigningKey('rsa-unknown');
+
+      await expect(
+        verifier.verifyIdToken(signIdToken(unknownKey, createIdTokenClaims()))
+      ).rejects.toThrow(
+        new IdTokenVerificationError(
+          'No matching signing key found for id_token (kid: rsa-unknown)'
+        )
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('claims', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    const verify = (
+      overrides: Record<string, unknown>,
+      options?: Parameters<ScalekitTokenVerifier['verifyIdToken']>[1]
+    ) => verifier.verifyIdToken(signIdToken(rsaKey, createIdTokenClaims(overrides)), options);
+
+    it.each([
+      [
+        'another issuer',
+        { iss: 'https://evil.example.com' },
+        'Invalid id_token issuer: https://evil.example.com',
+      ],
+      ['another audience', { aud: 'skc_other' }, 'id_token audience does not include this client'],
+      [
+        'several audiences without azp',
+        { aud: [CLIENT_ID, 'skc_other'] },
+        'id_token authorized party does not match this client',
+      ],
+      [
+        'several audiences with another azp',
+        { aud: [CLIENT_ID, 'skc_other'], azp: 'skc_other' },
+        'id_token authorized party does not match this client',
+      ],
+      // The table is built before the tests run, so stay well clear of the skew
+      ['an expiry beyond the clock skew', { exp: now() - 600 }, 'id_token has expired'],
+      ['no expiry', { exp: undefined }, 'id_token has expired'],
+      [
+        'an issue time beyond the clock skew',
+        { iat: now() + 600 },
+        'id_token was issued in the future',
+      ],
+    ])('rejects %s', async (_case, overrides, message) => {
+      await expect(verify(overrides)).rejects.toThrow(new IdTokenVerificationError(message));
+    });
+
+    it('accepts several audiences when azp is this client', async () => {
+      await expect(
+        verify({ aud: [CLIENT_ID, 'skc_other'], azp: CLIENT_ID })
+      ).resolves.toBeDefined();
+    });
+
+    it('allows expiry and issue time within the clock skew', async () => {
+      await expect(verify({ exp: now() - 30, iat: now() + 30 })).resolves.toBeDefined();
+    });
+
+    it('checks the nonce when one was sent', async () => {
+      await expect(verify({ nonce: 'n-1' }, { nonce: 'n-1' })).resolves.toBeDefined();
+      await expect(verify({ nonce: 'n-2' }, { nonce: 'n-1' })).rejects.toThrow(
+        new IdTokenVerificationError('id_token nonce does not match')
+      );
+      await expect(verify({}, { nonce: 'n-1' })).rejects.toThrow(
+        new IdTokenVerificationError('id_token nonce does not match')
+      );
+    });
+
+    it('checks the subject when re-authenticating', async () => {
+      await expect(verify({}, { subject: 'usr_other' })).rejects.toThrow(
+        new IdTokenVerificationError('id_token subject does not match the signed-in user')
+      );
+    });
+
+    it('checks auth_time against maxAge', async () => {
+      await expect(verify({ auth_time: now() - 100 }, { maxAge: 300 })).resolves.toBeDefined();
+
+      for (const overrides of [{ auth_time: now() - 400 }, {}]) {
+        await expect(verify(overrides, { maxAge: 300 })).rejects.toThrow(
+          new InsufficientAuthenticationError(
+            'The user did not authenticate within the last 300 seconds'
+          )
+        );
+      }
+    });
+
+    it('checks acr against the accepted values', async () => {
+      await expect(verify({ acr: 'mfa' }, { acrValues: ['mfa', 'hwk'] })).resolves.toBeDefined();
+      await expect(verify({ acr: 'pwd' }, { acrValues: ['mfa'] })).rejects.toThrow(
+        new InsufficientAuthenticationError('Authentication context pwd does not satisfy mfa')
+      );
+      await expect(verify({}, { acrValues: ['mfa'] })).rejects.toBeInstanceOf(
+        InsufficientAuthenticationError
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { ScalekitDiscoveryDocument } from '../../types';
+
+export const ENV_URL = 'https://auth.example.com';
+export const CLIENT_ID = 'skc_123';
+export const REDIRECT_URI = 'myapp://auth/callback';
+
+/**
+ * Discovery document of the test environment
+ */
+export const discoveryDocument: ScalekitDiscoveryDocument = {
+  issuer: ENV_URL,
+  authorization_endpoint: `${ENV_URL}/oauth/authorize`,
+  token_endpoint: `${ENV_URL}/oauth/token`,
+  userinfo_endpoint: `${ENV_URL}/userinfo`,
+  jwks_uri: `${ENV_URL}/keys`,
+};
+
+/**
+ * Signing key pair with its public JWK as published in the JWKS
+ */
+export interface SigningKey {
+  alg: 'RS256' | 'ES256';
+  kid: string;
+  privateKeyPem: string;
+  jwk: Record<string, unknown>;
+}
+
+/**
+ * Generate a signing key pair
+ */
+export const createSigningKey = (kid: string, alg: SigningKey['alg'] = 'RS256'): SigningKey => {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return {
+    alg,
+    kid,
+    privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' },
+  };
+};
+
+/**
+ * Claims of a valid ID token for the test client, issued now
+ */
+export const createIdTokenClaims = (
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: ENV_URL,
+    aud: CLIENT_ID,
+    sub: 'usr_123',
+    email: 'jane@example.com',
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  };
+};
+
+const base64UrlJson = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Sign an ID token with a key
+ */
+export const signIdToken = (
+  key: SigningKey,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = {}
+): string => {
+  const signingInput = [
+    base64UrlJson({ alg: key.alg, typ: 'JWT', kid: key.kid, ...header }),
+    base64UrlJson(claims),
+  ].join('.');
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: key.privateKeyPem,
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+/**
+ * JSON response as returned by fetch
+ */
+export const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,193 @@
+/**
+ * @scalekit-sdk/expo - Encrypted Storage Wrapper
+ *
+ * Encrypts values before handing them to another storage backend (e.g. AsyncStorage)
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as jsrsasign from 'jsrsasign';
+import { SecureStoreStorage } from './SecureStoreStorage';
+import { ScalekitStorage } from '../types';
+
+/**
+ * Subset of the CryptoJS API used here
+ */
+interface WordArray {
+  toString(encoder?: Encoder): string;
+}
+
+interface Encoder {
+  parse(value: string): WordArray;
+  stringify(wordArray: WordArray): string;
+}
+
+interface CipherParams {
+  ciphertext: WordArray;
+}
+
+interface CryptoJSLike {
+  enc: { Hex: Encoder; Base64: Encoder; Utf8: Encoder };
+  AES: {
+    encrypt(message: WordArray, key: WordArray, options: { iv: WordArray }): CipherParams;
+    decrypt(cipherParams: CipherParams, key: WordArray, options: { iv: WordArray }): WordArray;
+  };
+  HmacSHA256(message: string, key: WordArray): WordArray;
+}
+
+/**
+ * Keys derived from the stored key material
+ */
+interface EncryptionKeys {
+  encryptionKey: WordArray;
+  macKey: WordArray;
+}
+
+// CryptoJS ships with jsrsasign but is not part of its type definitions
+const { CryptoJS } = jsrsasign as unknown as { CryptoJS: CryptoJSLike };
+
+// Format version prefix for encrypted values
+const ENCRYPTION_VERSION = 'v1';
+
+/**
+ * Encrypted storage options
+ */
+export interface EncryptedStorageOptions {
+  /** Where the encryption key is kept (default: SecureStoreStorage) */
+  keyStorage?: ScalekitStorage;
+  /** Storage key for the encryption key (default: 'scalekit_storage_key') */
+  keyName?: string;
+}
+
+/**
+ * Storage wrapper that encrypts values with AES-256-CBC + HMAC-SHA256
+ *
+ * The key is generated on first use and kept in secure storage, so large or
+ * numerous values can live in a less restricted backend like AsyncStorage.
+ *
+ * @example
+ * ```tsx
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * <ScalekitProvider storage={new EncryptedStorage(AsyncStorage)} ... />
+ * ```
+ */
+export class EncryptedStorage implements ScalekitStorage {
+  private keyStorage: ScalekitStorage;
+  private keyName: string;
+  private keysPromise: Promise<EncryptionKeys> | null = null;
+
+  constructor(private storage: ScalekitStorage, options: EncryptedStorageOptions = {}) {
+    this.keyStorage = options.keyStorage ?? new SecureStoreStorage();
+    this.keyName = options.keyName ?? 'scalekit_storage_key';
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.storage.getItem(key);
+    return value === null ? null : this.decrypt(value);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.storage.setItem(key, await this.encrypt(value));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(key);
+  }
+
+  /**
+   * Encrypt a value as `v1.<iv>.<ciphertext>.<mac>`
+   */
+  private async encrypt(value: string): Promise<string> {
+    const { encryptionKey, macKey } = await this.getKeys();
+    const iv = CryptoJS.enc.Hex.parse(this.toHex(await Crypto.getRandomBytesAsync(16)));
+
+    const { ciphertext } = CryptoJS.AES.encrypt(CryptoJS.enc.Utf8.parse(value), encryptionKey, {
+      iv,
+    });
+
+    const ivBase64 = iv.toString(CryptoJS.enc.Base64);
+    const ciphertextBase64 = ciphertext.toString(CryptoJS.enc.Base64);
+    const mac = this.computeMac(macKey, ivBase64, ciphertextBase64);
+
+    return [ENCRYPTION_VERSION, ivBase64, ciphertextBase64, mac].join('.');
+  }
+
+  /**
+   * Verify and decrypt a value produced by encrypt()
+   */
+  private async decrypt(value: string): Promise<string> {
+    const [version, ivBase64, ciphertextBase64, mac] = value.split('.');
+    if (version !== ENCRYPTION_VERSION || !ivBase64 || !ciphertextBase64 || !mac) {
+      throw new Error('Unrecognized encrypted value format');
+    }
+
+    const { encryptionKey, macKey } = await this.getKeys();
+    if (!this.constantTimeEqual(this.computeMac(macKey, ivBase64, ciphertextBase64), mac)) {
+      throw new Error('Encrypted value failed integrity check');
+    }
+
+    const decrypted = CryptoJS.AES.decrypt(
+      { ciphertext: CryptoJS.enc.Base64.parse(ciphertextBase64) },
+      encryptionKey,
+      { iv: CryptoJS.enc.Base64.parse(ivBase64) }
+    );
+    return decrypted.toString(CryptoJS.enc.Utf8);
+  }
+
+  /**
+   * HMAC over the version, IV and ciphertext (encrypt-then-MAC)
+   */
+  private computeMac(macKey: WordArray, ivBase64: string, ciphertextBase64: string): string {
+    return CryptoJS.HmacSHA256(
+      `${ENCRYPTION_VERSION}.${ivBase64}.${ciphertextBase64}`,
+      macKey
+    ).toString(CryptoJS.enc.Hex);
+  }
+
+  /**
+   * Load the encryption and MAC keys, generating them on first use
+   */
+  private getKeys(): Promise<EncryptionKeys> {
+    if (!this.keysPromise) {
+      this.keysPromise = this.loadKeys().catch((error) => {
+        this.keysPromise = null;
+        throw error;
+      });
+    }
+    return this.keysPromise;
+  }
+
+  private async loadKeys(): Promise<EncryptionKeys> {
+    let keyHex = await this.keyStorage.getItem(this.keyName);
+    if (!keyHex) {
+      keyHex = this.toHex(await Crypto.getRandomBytesAsync(64));
+      await this.keyStorage.setItem(this.keyName, keyHex);
+    }
+
+    return {
+      encryptionKey: CryptoJS.enc.Hex.parse(keyHex.slice(0, 64)),
+      macKey: CryptoJS.enc.Hex.parse(keyHex.slice(64)),
+    };
+  }
+
+  /**
+   * Convert bytes to a hex string
+   */
+  private toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Compare two strings without short-circuiting on the first difference
+   */
+  private constantTimeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+}
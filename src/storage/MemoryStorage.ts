@@ -0,0 +1,33 @@
+/**
+ * @scalekit-sdk/expo - In-Memory Storage Adapter
+ *
+ * Non-persistent storage backend, useful for tests
+ */
+
+import { ScalekitStorage } from '../types';
+
+/**
+ * Storage adapter that keeps values in memory for the lifetime of the instance
+ */
+export class MemoryStorage implements ScalekitStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  /**
+   * Remove every stored value
+   */
+  clear(): void {
+    this.items.clear();
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @scalekit-sdk/expo - Namespaced Storage
+ *
+ * Scopes storage keys to one Scalekit environment and client
+ */
+
+import { StorageError } from '../errors';
+import { ScalekitStorage } from '../types';
+
+/**
+ * Namespaced storage options
+ */
+export interface NamespacedStorageOptions {
+  /** Move values stored under un-namespaced keys (SDK versions before namespacing) on first read */
+  migrateLegacyKeys?: boolean;
+}
+
+/**
+ * Storage wrapper that suffixes keys with a namespace and raises StorageError on failure
+ */
+export class NamespacedStorage implements ScalekitStorage {
+  private namespace: string;
+
+  constructor(
+    private storage: ScalekitStorage,
+    envUrl: string,
+    clientId: string,
+    private options: NamespacedStorageOptions = {}
+  ) {
+    // SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+    this.namespace = `${envUrl.replace(/^https?:\/\//, '').replace(/\/+$/, '')}_${clientId}`.replace(
+      /[^A-Za-z0-9._-]/g,
+      '_'
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      const value = await this.storage.getItem(this.scopedKey(key));
+      if (value !== null || !this.options.migrateLegacyKeys) {
+        return value;
+      }
+      return await this.migrateLegacyKey(key);
+    } catch (error) {
+      throw new StorageError(`Failed to read ${key} from storage`, error);
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      await this.storage.setItem(this.scopedKey(key), value);
+    } catch (error) {
+      throw new StorageError(`Failed to write ${key} to storage`, error);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.storage.removeItem(this.scopedKey(key));
+    } catch (error) {
+      throw new StorageError(`Failed to remove ${key} from storage`, error);
+    }
+  }
+
+  /**
+   * Build the namespaced key
+   */
+  private scopedKey(key: string): string {
+    return `${key}.${this.namespace}`;
+  }
+
+  /**
+   * Move a value from its un-namespaced key to the namespaced one
+   */
+  private async migrateLegacyKey(key: string): Promise<string | null> {
+    const legacyValue = await this.storage.getItem(key);
+    if (legacyValue !== null) {
+      await this.storage.setItem(this.scopedKey(key), legacyValue);
+      await this.storage.removeItem(key);
+    }
+    return legacyValue;
+  }
+}
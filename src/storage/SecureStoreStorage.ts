@@ -0,0 +1,27 @@
+/**
+ * @scalekit-sdk/expo - SecureStore Storage Adapter
+ *
+ * Default storage backend, keeping data in the iOS Keychain / Android Keystore
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { ScalekitStorage } from '../types';
+
+/**
+ * Storage adapter backed by expo-secure-store
+ */
+export class SecureStoreStorage implements ScalekitStorage {
+  constructor(private options?: SecureStore.SecureStoreOptions) {}
+
+  getItem(key: string): Promise<string | null> {
+    return SecureStore.getItemAsync(key, this.options);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return SecureStore.setItemAsync(key, value, this.options);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return SecureStore.deleteItemAsync(key, this.options);
+  }
+}
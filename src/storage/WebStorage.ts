@@ -0,0 +1,51 @@
+/**
+ * @scalekit-sdk/expo - Web Storage Adapter
+ *
+ * Default storage backend on Expo web, using localStorage or sessionStorage
+ */
+
+import { getBrowserWindow, BrowserStorageArea } from '../utils/web';
+import { ScalekitStorage } from '../types';
+
+/**
+ * Web storage options
+ */
+export interface WebStorageOptions {
+  /**
+   * `local` keeps the session across browser restarts and tabs (default);
+   * `session` scopes it to the current tab until it is closed.
+   */
+  persistence?: 'local' | 'session';
+}
+
+/**
+ * Storage adapter backed by the browser's Web Storage API
+ */
+export class WebStorage implements ScalekitStorage {
+  constructor(private options: WebStorageOptions = {}) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.getArea().getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.getArea().setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.getArea().removeItem(key);
+  }
+
+  /**
+   * Resolve the storage area for the configured persistence
+   */
+  private getArea(): BrowserStorageArea {
+    const browserWindow = getBrowserWindow();
+    if (!browserWindow) {
+      throw new Error('WebStorage is only available in a browser');
+    }
+    return this.options.persistence === 'session'
+      ? browserWindow.sessionStorage
+      : browserWindow.localStorage;
+  }
+}
@@ -2,6 +2,8 @@
  * @scalekit-sdk/expo - Type Definitions
  */
 
+import type { ScalekitError } from '../errors';
+
 /**
  * Scalekit SDK Configuration
  */
@@ -15,10 +17,99 @@ export interface ScalekitConfig {
    * Not required when using PKCE-only flow. Only include for confidential clients.
    */
   clientSecret?: string;
-  /** OAuth redirect URI (must match Scalekit dashboard configuration) */
+  /**
+   * OAuth redirect URI (must match Scalekit dashboard configuration)
+   * Defaults to `<scheme>://<redirectPath>` from the app config, or the dev server URL in Expo Go.
+   */
   redirectUri?: string;
+  /** Callback path of the default redirect URI (default: the config plugin's callbackPath, then 'auth/callback') */
+  redirectPath?: string;
   /** OAuth scopes to request (default: ['openid', 'profile', 'email']) */
   scopes?: string[];
+  /**
+   * Static OpenID Connect discovery document (optional)
+   * When provided, the SDK uses it instead of fetching /.well-known/openid-configuration.
+   */
+  discovery?: ScalekitDiscoveryDocument;
+  /** How long a fetched discovery document is cached, in seconds (default: 86400) */
+  discoveryTtl?: number;
+  /** Clock skew tolerated when checking ID token exp/iat claims, in seconds (default: 60) */
+  clockSkew?: number;
+  /**
+   * Storage backend for tokens and session data (default: SecureStoreStorage)
+   * Keys are namespaced per envUrl + clientId, so several environments can share one backend.
+   */
+  storage?: ScalekitStorage;
+  /**
+   * How login() authenticates on Expo web (default: 'popup')
+   * `popup` opens the login page in a popup window; `redirect` navigates the current
+   * tab and completes the code exchange when the app loads on the redirect URI.
+   */
+  webLoginMode?: 'popup' | 'redirect';
+  /**
+   * How getAccessToken({ audience }) obtains tokens for other APIs (default: 'refresh_token')
+   * `refresh_token` sends the refresh token with an RFC 8707 `resource` parameter;
+   * `token_exchange` exchanges the session's access token (RFC 8693).
+   */
+  audienceTokenGrant?: 'refresh_token' | 'token_exchange';
+  /**
+   * Send login parameters with a pushed authorization request (RFC 9126) (default: false)
+   * The browser then only opens `client_id` + `request_uri`. Falls back to a regular
+   * authorization URL when the server does not advertise PAR.
+   */
+  usePar?: boolean;
+  /**
+   * Bind tokens to a per-install key pair with DPoP (RFC 9449) (default: false)
+   * Token requests carry a DPoP proof, and API calls through fetch() or the axios
+   * adapter send one alongside the `DPoP` access token.
+   */
+  dpop?: boolean;
+}
+
+/**
+ * Key-value storage backend used to persist the session
+ */
+export interface ScalekitStorage {
+  /** Read a value, resolving to null if it does not exist */
+  getItem(key: string): Promise<string | null>;
+  /** Write a value */
+  setItem(key: string, value: string): Promise<void>;
+  /** Delete a value */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * OpenID Connect discovery document
+ * (subset of https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata)
+ */
+export interface ScalekitDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
+  device_authorization_endpoint?: string;
+  pushed_authorization_request_endpoint?: string;
+  jwks_uri?: string;
+  /** Additional provider metadata */
+  [key: string]: unknown;
+}
+
+/**
+ * Resolved OAuth / OIDC endpoints
+ */
+export interface ScalekitEndpoints {
+  issuer: string;
+  authorization: string;
+  token: string;
+  userinfo: string;
+  revocation: string;
+  endSession: string;
+  deviceAuthorization: string;
+  /** Pushed authorization request endpoint (null if the server does not advertise one) */
+  pushedAuthorizationRequest: string | null;
+  jwks: string;
 }
 
 /**
@@ -39,6 +130,16 @@ export interface ScalekitTokens {
   expiresAt: number;
 }
 
+/**
+ * Options for getAccessToken
+ */
+export interface ScalekitAccessTokenOptions {
+  /** API (resource server) the token is for */
+  audience: string;
+  /** Scopes to request for the API (default: the server's default for the audience) */
+  scopes?: string[];
+}
+
 /**
  * User information from ID token
  */
@@ -57,10 +158,54 @@ export interface ScalekitUser {
   familyName?: string;
   /** URL to user's profile picture */
   picture?: string;
+  /** When the user last authenticated (seconds since epoch) */
+  auth_time?: number;
+  /** Authentication context class the user authenticated with */
+  acr?: string;
   /** Custom claims from ID token */
   [key: string]: any;
 }
 
+/**
+ * Claims in a Scalekit access token
+ */
+export interface ScalekitAccessTokenClaims {
+  /** Issuer (your Scalekit environment URL) */
+  iss: string;
+  /** Subject (user ID) */
+  sub: string;
+  /** Audience */
+  aud?: string | string[];
+  /** Expiry (seconds since epoch) */
+  exp: number;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Organization the token is scoped to */
+  oid?: string;
+  /** Session ID */
+  sid?: string;
+  /** Client the token was issued to */
+  client_id?: string;
+  /** Roles assigned to the user in the organization */
+  roles?: string[];
+  /** Permissions granted to the user in the organization */
+  permissions?: string[];
+  /** Custom claims */
+  [key: string]: any;
+}
+
+/**
+ * Organization the user can access, from the `organizations` token claim
+ */
+export interface ScalekitOrganization {
+  /** Organization ID */
+  id: string;
+  /** Display name, when included in the claim */
+  name?: string;
+  /** Other organization attributes from the claim */
+  [key: string]: any;
+}
+
 /**
  * Authentication state
  */
@@ -73,10 +218,25 @@ export interface ScalekitAuthState {
   user: ScalekitUser | null;
   /** Current tokens (null if not authenticated) */
   tokens: ScalekitTokens | null;
-  /** Error message if authentication failed */
-  error: string | null;
+  /** Structured error if authentication failed (branch on `error.code`) */
+  error: ScalekitError | null;
+  /** Organization the current tokens are scoped to (null if not authenticated or not org-scoped) */
+  currentOrganizationId: string | null;
+  /** Organizations the user can access */
+  organizations: ScalekitOrganization[];
+  /** Code to show the user while a device code login is waiting for them (null otherwise) */
+  deviceAuthorization: ScalekitDeviceAuthorization | null;
 }
 
+/**
+ * OIDC `prompt` value
+ * - `login`: ask the user to sign in again even with an active session
+ * - `consent`: ask the user to approve the requested scopes again
+ * - `select_account`: let the user pick between signed-in accounts
+ * - `none`: fail instead of showing any page (silent authentication)
+ */
+export type ScalekitPrompt = 'login' | 'consent' | 'select_account' | 'none';
+
 /**
  * Options for login method
  */
@@ -85,10 +245,129 @@ export interface ScalekitLoginOptions {
   organizationId?: string;
   /** Connection ID for specific SSO connection */
   connectionId?: string;
-  /** Additional OAuth parameters */
+  /** Email or username to pre-fill on the login page (`login_hint`) */
+  loginHint?: string;
+  /** Email domain used to route the user to their organization's SSO (`domain_hint`) */
+  domainHint?: string;
+  /** Whether to force re-authentication, consent or account selection (`prompt`) */
+  prompt?: ScalekitPrompt;
+  /** Require the user to have signed in within this many seconds (`max_age`) */
+  maxAge?: number;
+  /** Requested authentication context classes, most preferred first (`acr_values`) */
+  acrValues?: string[];
+  /** Preferred languages for the login page, e.g. `['fr-CA', 'fr']` (`ui_locales`) */
+  uiLocales?: string[];
+  /** Open the sign-up page instead of sign-in (`screen_hint`) */
+  screenHint?: 'signin' | 'signup';
+  /**
+   * Additional OAuth parameters
+   * Typed options take precedence. Parameters managed by the SDK (client_id,
+   * redirect_uri, response_type, response_mode, scope, code_challenge,
+   * code_challenge_method, state, nonce, request, request_uri, dpop_jkt) are
+   * rejected; set scopes in the config instead.
+   */
   extraParams?: Record<string, string>;
+  /** In-app path to return to after login (read back with `client.auth.consumeReturnTo()`) */
+  returnTo?: string;
+}
+
+/**
+ * Options for loginWithDeviceCode method
+ */
+export interface ScalekitDeviceLoginOptions {
+  /** Organization ID for B2B/multi-tenant apps */
+  organizationId?: string;
+  /** Connection ID for specific SSO connection */
+  connectionId?: string;
+  /** Called once the user code is available, before polling starts */
+  onDeviceCode?: (authorization: ScalekitDeviceAuthorization) => void;
+  /** Stops polling; the login rejects with UserCancelledError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Device authorization response (RFC 8628), shown to the user on an input-constrained device
+ */
+export interface ScalekitDeviceAuthorization {
+  /** Code the user enters at verificationUri */
+  userCode: string;
+  /** Page where the user enters the code */
+  verificationUri: string;
+  /** Page with the code pre-filled, when the server provides one */
+  verificationUriComplete?: string;
+  /** Value to encode in a QR code (verificationUriComplete, falling back to verificationUri) */
+  qrCodeValue: string;
+  /** Timestamp (ms) when the user code expires */
+  expiresAt: number;
+  /** Seconds between token endpoint polls */
+  interval: number;
+}
+
+/**
+ * Options for reauthenticate method
+ */
+export interface ScalekitReauthenticateOptions {
+  /** Maximum seconds since the user authenticated (default: 0, i.e. authenticate now) */
+  maxAge?: number;
+  /** Authentication context classes, one of which the user must authenticate with */
+  acrValues?: string[];
 }
 
+/**
+ * Options for logout method
+ */
+export interface ScalekitLogoutOptions {
+  /** Revoke the refresh and access tokens at the revocation endpoint (default: true) */
+  revokeTokens?: boolean;
+  /**
+   * End the Scalekit session by opening the end_session_endpoint in the browser (default: false)
+   * Prevents the next login() from silently signing back into the same account.
+   */
+  endSession?: boolean;
+  /** Where to return after ending the session (default: redirectUri) */
+  postLogoutRedirectUri?: string;
+}
+
+/**
+ * Why a session became active
+ * - `login`: interactive login completed
+ * - `reauthenticated`: the signed-in user authenticated again with reauthenticate()
+ * - `restored`: stored session loaded on startup
+ * - `sync`: another browser tab signed in
+ */
+export type ScalekitLoginReason = 'login' | 'reauthenticated' | 'restored' | 'sync';
+
+/**
+ * Why a session ended
+ * - `user`: logout() was called
+ * - `session_expired`: the session could not be refreshed
+ * - `sync`: another browser tab signed out
+ */
+export type ScalekitLogoutReason = 'user' | 'session_expired' | 'sync';
+
+/**
+ * Auth lifecycle event
+ */
+export type ScalekitAuthEvent =
+  | { type: 'login'; user: ScalekitUser; tokens: ScalekitTokens; reason: ScalekitLoginReason }
+  | { type: 'logout'; reason: ScalekitLogoutReason }
+  | { type: 'token_refreshed'; user: ScalekitUser | null; tokens: ScalekitTokens }
+  | { type: 'session_expired'; error: ScalekitError }
+  | { type: 'error'; error: ScalekitError };
+
+/**
+ * Payload of a given auth lifecycle event type
+ */
+export type ScalekitAuthEventOf<T extends ScalekitAuthEvent['type']> = Extract<
+  ScalekitAuthEvent,
+  { type: T }
+>;
+
+/**
+ * Listener notified of auth lifecycle events
+ */
+export type ScalekitAuthEventListener = (event: ScalekitAuthEvent) => void;
+
 /**
  * Scalekit hook return type
  */
@@ -99,18 +378,81 @@ export interface UseScalekitReturn extends ScalekitAuthState {
    */
   login: (options?: ScalekitLoginOptions) => Promise<void>;
 
+  /**
+   * Log in on a TV or other input-constrained device with a user code (RFC 8628)
+   * While waiting, `deviceAuthorization` holds the code and verification URL to display.
+   * @param options Optional login parameters
+   */
+  loginWithDeviceCode: (options?: ScalekitDeviceLoginOptions) => Promise<void>;
+
+  /**
+   * Stop waiting for a device code login
+   */
+  cancelDeviceLogin: () => void;
+
+  /**
+   * Ask the signed-in user to authenticate again before a sensitive action
+   * Rejects if the user cancels or the new authentication is not recent or strong enough;
+   * the current session is kept either way.
+   * @param options Required recency and authentication context
+   */
+  reauthenticate: (options?: ScalekitReauthenticateOptions) => Promise<void>;
+
   /**
    * Logout current user and clear session
+   * @param options Optional server-side sign-out behavior
    */
-  logout: () => Promise<void>;
+  logout: (options?: ScalekitLogoutOptions) => Promise<void>;
+
+  /**
+   * Complete a login from an authorization redirect URL
+   * Callbacks arriving as deep links are handled automatically; use this for custom routing.
+   * @param url Redirect URL including the `code` and `state` query parameters
+   */
+  handleRedirect: (url: string) => Promise<void>;
 
   /**
    * Refresh user information from stored ID token
    */
   refreshUser: () => Promise<void>;
 
+  /**
+   * Exchange the refresh token for new tokens
+   */
+  refreshTokens: () => Promise<void>;
+
+  /**
+   * Switch the session to another organization
+   * Tokens are re-issued silently when possible, otherwise through an interactive login.
+   * @param organizationId Target organization ID
+   */
+  switchOrganization: (organizationId: string) => Promise<void>;
+
   /**
    * Get current access token (useful for API calls)
+   * Expired tokens are refreshed transparently when a refresh token is available.
+   * @param options Audience and scopes of a token for another API (cached per audience and scopes)
+   */
+  getAccessToken: (options?: ScalekitAccessTokenOptions) => Promise<string | null>;
+
+  /**
+   * Whether the access token grants a role
+   */
+  hasRole: (role: string) => boolean;
+
+  /**
+   * Whether the access token grants a permission
+   */
+  hasPermission: (permission: string) => boolean;
+
+  /**
+   * Whether the access token grants at least one of the permissions
+   */
+  hasAnyPermission: (permissions: string[]) => boolean;
+
+  /**
+   * Subscribe to auth lifecycle events (login, logout, token refresh, expiry, errors)
+   * @returns Unsubscribe function
    */
-  getAccessToken: () => Promise<string | null>;
+  onAuthStateChange: (listener: ScalekitAuthEventListener) => () => void;
 }
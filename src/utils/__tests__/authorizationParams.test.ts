@@ -0,0 +1,32 @@
+import { getAuthorizationParams } from '../authorizationParams';
+import { ConfigurationError } from '../../errors';
+
+describe('getAuthorizationParams', () => {
+  it('maps typed options over extraParams', () => {
+    expect(
+      getAuthorizationParams({
+        organizationId: 'org_1',
+        prompt: 'login',
+        maxAge: 300,
+        extraParams: { prompt: 'none', custom: 'value' },
+      })
+    ).toEqual({ organization_id: 'org_1', prompt: 'login', max_age: '300', custom: 'value' });
+  });
+
+  it.each([
+    'client_id',
+    'redirect_uri',
+    'response_type',
+    'response_mode',
+    'scope',
+    'state',
+    'nonce',
+    'code_challenge',
+    'request_uri',
+    'dpop_jkt',
+  ])('rejects extraParams that set %s', (param) => {
+    expect(() => getAuthorizationParams({ extraParams: { [param]: 'value' } })).toThrow(
+      new ConfigurationError(`extraParams cannot set "${param}"; it is managed by the SDK`)
+    );
+  });
+});
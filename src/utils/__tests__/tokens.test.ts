@@ -0,0 +1,44 @@
+import { DEFAULT_EXPIRES_IN, parseTokenResponse } from '../tokens';
+
+const NOW = 1_700_000_000_000;
+
+describe('parseTokenResponse', () => {
+  it('maps a token response', () => {
+    expect(
+      parseTokenResponse(
+        {
+          access_token: 'access',
+          refresh_token: 'refresh',
+          id_token: 'id',
+          token_type: 'Bearer',
+          expires_in: 300,
+        },
+        NOW
+      )
+    ).toEqual({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      idToken: 'id',
+      tokenType: 'Bearer',
+      expiresIn: 300,
+      expiresAt: NOW + 300_000,
+    });
+  });
+
+  it('accepts expires_in sent as a string', () => {
+    expect(parseTokenResponse({ access_token: 'access', expires_in: '120' }, NOW)).toMatchObject({
+      expiresIn: 120,
+      expiresAt: NOW + 120_000,
+    });
+  });
+
+  it.each([undefined, null, '', 'soon', 0, -5, Number.NaN, Number.POSITIVE_INFINITY])(
+    'defaults a missing or invalid expires_in (%p)',
+    (expiresIn) => {
+      const tokens = parseTokenResponse({ access_token: 'access', expires_in: expiresIn }, NOW);
+
+      expect(tokens.expiresIn).toBe(DEFAULT_EXPIRES_IN);
+      expect(tokens.expiresAt).toBe(NOW + DEFAULT_EXPIRES_IN * 1000);
+    }
+  );
+});
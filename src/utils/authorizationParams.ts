@@ -0,0 +1,94 @@
+/**
+ * @scalekit-sdk/expo - Authorization Request Parameters
+ *
+ * Maps login options to authorization endpoint query parameters
+ */
+
+import { ConfigurationError } from '../errors';
+import { ScalekitLoginOptions, ScalekitPrompt } from '../types';
+
+/**
+ * Parameters the SDK sets itself; overriding them would break PKCE, state/nonce
+ * checks, the ID token (scope must keep `openid`) or the redirect back to the app
+ */
+const RESERVED_PARAMS = [
+  'client_id',
+  'redirect_uri',
+  'response_type',
+  'response_mode',
+  'scope',
+  'code_challenge',
+  'code_challenge_method',
+  'state',
+  'nonce',
+  'request',
+  'request_uri',
+  'dpop_jkt',
+];
+
+const PROMPT_VALUES: ScalekitPrompt[] = ['login', 'consent', 'select_account', 'none'];
+
+/**
+ * Build the optional authorization parameters for a login
+ *
+ * `extraParams` are applied first, so typed options win over them. Throws a
+ * ConfigurationError for invalid values or `extraParams` that try to set
+ * parameters reserved by the SDK.
+ */
+export const getAuthorizationParams = (
+  options: ScalekitLoginOptions = {}
+): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(options.extraParams ?? {})) {
+    if (RESERVED_PARAMS.includes(key)) {
+      throw new ConfigurationError(`extraParams cannot set "${key}"; it is managed by the SDK`);
+    }
+    params[key] = value;
+  }
+
+  if (options.organizationId) {
+    params.organization_id = options.organizationId;
+  }
+  if (options.connectionId) {
+    params.connection_id = options.connectionId;
+  }
+  if (options.loginHint) {
+    params.login_hint = options.loginHint;
+  }
+  if (options.domainHint) {
+    params.domain_hint = options.domainHint;
+  }
+  if (options.prompt !== undefined) {
+    if (!PROMPT_VALUES.includes(options.prompt)) {
+      throw new ConfigurationError(
+        `Invalid prompt "${options.prompt}"; expected one of ${PROMPT_VALUES.join(', ')}`
+      );
+    }
+    params.prompt = options.prompt;
+  }
+  if (options.maxAge !== undefined) {
+    if (!Number.isInteger(options.maxAge) || options.maxAge < 0) {
+      throw new ConfigurationError(
+        `Invalid maxAge ${options.maxAge}; expected a whole number of seconds`
+      );
+    }
+    params.max_age = String(options.maxAge);
+  }
+  if (options.acrValues?.length) {
+    params.acr_values = options.acrValues.join(' ');
+  }
+  if (options.uiLocales?.length) {
+    params.ui_locales = options.uiLocales.join(' ');
+  }
+  if (options.screenHint) {
+    if (options.screenHint !== 'signin' && options.screenHint !== 'signup') {
+      throw new ConfigurationError(
+        `Invalid screenHint "${options.screenHint}"; expected signin or signup`
+      );
+    }
+    params.screen_hint = options.screenHint;
+  }
+
+  return params;
+};
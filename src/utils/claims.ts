@@ -0,0 +1,99 @@
+/**
+ * @scalekit-sdk/expo - Token Claim Utilities
+ *
+ * Helpers for reading session context (organizations, roles, permissions) from token claims
+ */
+
+import { decodeJwt } from './jwt';
+import { ScalekitAccessTokenClaims, ScalekitOrganization, ScalekitTokens } from '../types';
+
+/**
+ * Claims naming the organization a token is scoped to, in order of preference
+ */
+const ORGANIZATION_ID_CLAIMS = ['oid', 'org_id', 'organization_id'] as const;
+
+/**
+ * Decode a token's claims, or null if it is missing or not a JWT (e.g. an opaque access token)
+ */
+export const decodeTokenClaims = (token?: string): Record<string, any> | null => {
+  if (!token) {
+    return null;
+  }
+  try {
+    return decodeJwt(token).payload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decode the access token's claims, or null if there is no session or the token is opaque
+ */
+export const getAccessTokenClaims = <T extends ScalekitAccessTokenClaims = ScalekitAccessTokenClaims>(
+  tokens: ScalekitTokens | null
+): T | null => decodeTokenClaims(tokens?.accessToken) as T | null;
+
+/**
+ * Read a claim holding a list of strings (a single space-separated string is also accepted)
+ */
+export const getClaimList = (claims: Record<string, any> | null, name: string): string[] => {
+  const value = claims?.[name];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  return [];
+};
+
+/**
+ * Normalize one entry of an `organizations` claim (an ID or an object with an ID)
+ */
+const parseOrganization = (value: unknown): ScalekitOrganization | null => {
+  if (typeof value === 'string' && value) {
+    return { id: value };
+  }
+  if (value && typeof value === 'object') {
+    const { id, organization_id: organizationId, ...rest } = value as Record<string, any>;
+    const orgId = id ?? organizationId;
+    return typeof orgId === 'string' && orgId ? { ...rest, id: orgId } : null;
+  }
+  return null;
+};
+
+/**
+ * Read the current organization and the organizations the user can access
+ *
+ * Access token claims take precedence over ID token claims. The current
+ * organization is always included in the list.
+ */
+export const getOrganizationContext = (
+  tokens: ScalekitTokens | null
+): { currentOrganizationId: string | null; organizations: ScalekitOrganization[] } => {
+  const sources = [decodeTokenClaims(tokens?.accessToken), decodeTokenClaims(tokens?.idToken)];
+
+  let currentOrganizationId: string | null = null;
+  let organizations: ScalekitOrganization[] = [];
+
+  for (const claims of sources) {
+    if (!claims) {
+      continue;
+    }
+    if (!currentOrganizationId) {
+      const claim = ORGANIZATION_ID_CLAIMS.find((name) => typeof claims[name] === 'string');
+      currentOrganizationId = claim ? claims[claim] : null;
+    }
+    if (!organizations.length && Array.isArray(claims.organizations)) {
+      organizations = claims.organizations
+        .map(parseOrganization)
+        .filter((org: ScalekitOrganization | null): org is ScalekitOrganization => org !== null);
+    }
+  }
+
+  if (currentOrganizationId && !organizations.some((org) => org.id === currentOrganizationId)) {
+    organizations = [{ id: currentOrganizationId }, ...organizations];
+  }
+
+  return { currentOrganizationId, organizations };
+};
@@ -0,0 +1,51 @@
+/**
+ * @scalekit-sdk/expo - HTTP Utilities
+ *
+ * fetch wrappers that translate failures into SDK errors
+ */
+
+import { NetworkError, ScalekitErrorDetails } from '../errors';
+
+/**
+ * fetch that raises a NetworkError when the server cannot be reached
+ */
+export const request = async (url: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw new NetworkError(`Request to ${url} failed`, error);
+  }
+};
+
+/**
+ * Read the OAuth `error` / `error_description` from a failed response
+ */
+export const readErrorDetails = async (response: Response): Promise<ScalekitErrorDetails> => {
+  const body = await response.text().catch(() => '');
+  try {
+    const data = JSON.parse(body);
+    return {
+      status: response.status,
+      oauthError: data.error,
+      errorDescription: data.error_description,
+    };
+  } catch (error) {
+    return { status: response.status, errorDescription: body || undefined };
+  }
+};
+
+/**
+ * Whether a response is an RFC 6750 `invalid_token` challenge
+ */
+export const isInvalidTokenChallenge = (
+  status: number,
+  wwwAuthenticate: string | null | undefined
+): boolean => status === 401 && /invalid_token/.test(wwwAuthenticate ?? '');
+
+/**
+ * Whether a response is an RFC 9449 `use_dpop_nonce` challenge from a resource server
+ */
+export const isDPoPNonceChallenge = (
+  status: number,
+  wwwAuthenticate: string | null | undefined
+): boolean => status === 401 && /use_dpop_nonce/.test(wwwAuthenticate ?? '');
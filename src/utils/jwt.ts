@@ -0,0 +1,40 @@
+/**
+ * @scalekit-sdk/expo - JWT Utilities
+ *
+ * Decoding helpers shared by ID token verification and user info parsing
+ */
+
+/**
+ * Decoded JWT parts
+ */
+export interface DecodedJwt<T = Record<string, any>> {
+  header: Record<string, any>;
+  payload: T;
+}
+
+/**
+ * Decode a base64url-encoded JSON segment
+ */
+const decodeSegment = (segment: string): any => {
+  // Add padding if needed
+  const padded = segment + '='.repeat((4 - (segment.length % 4)) % 4);
+  // Decode from base64
+  const decoded = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+  return JSON.parse(decoded);
+};
+
+/**
+ * Decode a JWT without verifying it
+ */
+export const decodeJwt = <T = Record<string, any>>(token: string): DecodedJwt<T> => {
+  // JWT has three parts: header.payload.signature
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid JWT format');
+  }
+
+  return {
+    header: decodeSegment(parts[0]),
+    payload: decodeSegment(parts[1]),
+  };
+};
@@ -0,0 +1,115 @@
+/**
+ * @scalekit-sdk/expo - Redirect URI Utilities
+ *
+ * Resolves the OAuth redirect URI from the app config and the runtime environment
+ */
+
+import Constants, { ExecutionEnvironment } from 'expo-constants';
+import { ConfigurationError } from '../errors';
+import { getBrowserWindow } from './web';
+
+/**
+ * Callback path used when neither the provider nor the config plugin sets one
+ */
+export const DEFAULT_CALLBACK_PATH = 'auth/callback';
+
+/**
+ * Deep link settings written to `expo.extra.scalekit` by the config plugin
+ */
+export interface ScalekitAppConfigExtra {
+  /** Primary URL scheme the plugin registered */
+  scheme?: string;
+  /** All URL schemes the plugin registered */
+  schemes?: string[];
+  /** Callback path appended to the scheme */
+  callbackPath?: string;
+}
+
+/**
+ * Read the settings written by the config plugin, if it is installed
+ */
+export const getAppConfigExtra = (): ScalekitAppConfigExtra | null =>
+  (Constants.expoConfig?.extra?.scalekit as ScalekitAppConfigExtra | undefined) ?? null;
+
+/**
+ * URL schemes the app is registered for: the plugin's schemes (primary first), then `expo.scheme`
+ */
+export const getAppSchemes = (): string[] => {
+  const extra = getAppConfigExtra();
+  const appScheme = Constants.expoConfig?.scheme;
+  const schemes = [
+    ...(extra?.scheme ? [extra.scheme] : []),
+    ...(extra?.schemes ?? []),
+    ...(Array.isArray(appScheme) ? appScheme : appScheme ? [appScheme] : []),
+  ];
+  return Array.from(new Set(schemes));
+};
+
+/**
+ * Build the default redirect URI for the current environment
+ *
+ * - Web: `<origin>/<path>`
+ * - Expo Go: `exp://<dev server host>/--/<path>`
+ * - Development builds and standalone apps: `<scheme>://<path>`
+ *
+ * @param path Callback path (default: the plugin's callbackPath, then `auth/callback`)
+ */
+export const getDefaultRedirectUri = (path?: string): string => {
+  const callbackPath = (path ?? getAppConfigExtra()?.callbackPath ?? DEFAULT_CALLBACK_PATH).replace(
+    /^\/+/,
+    ''
+  );
+
+  // On web, return to the current origin
+  const browserWindow = getBrowserWindow();
+  if (browserWindow) {
+    return `${browserWindow.location.origin}/${callbackPath}`;
+  }
+
+  // Expo Go only handles exp:// links to the running project
+  if (Constants.executionEnvironment === ExecutionEnvironment.StoreClient) {
+    const hostUri = Constants.expoConfig?.hostUri;
+    if (hostUri) {
+      return `exp://${hostUri.replace(/\/+$/, '')}/--/${callbackPath}`;
+    }
+    const linkingUri = Constants.linkingUri.replace(/\/+$/, '').replace(/\/--$/, '');
+    return `${linkingUri}/--/${callbackPath}`;
+  }
+
+  const [scheme] = getAppSchemes();
+  if (!scheme) {
+    throw new ConfigurationError(
+      'No redirect URI configured: set "scheme" in app.json, add the @scalekit-sdk/expo config plugin or pass redirectUri'
+    );
+  }
+  return `${scheme}://${callbackPath}`;
+};
+
+/**
+ * Warn when a native redirect URI uses a scheme the app is not registered for
+ *
+ * The OS would not route the OAuth callback back to the app, so login would hang.
+ */
+export const warnOnUnregisteredScheme = (redirectUri: string): void => {
+  if (getBrowserWindow()) {
+    return;
+  }
+
+  const scheme = redirectUri.split(':')[0].toLowerCase();
+  if (scheme === 'http' || scheme === 'https') {
+    // Universal Links / App Links are verified by domain, not scheme
+    return;
+  }
+  if (scheme === 'exp' && Constants.executionEnvironment === ExecutionEnvironment.StoreClient) {
+    return;
+  }
+
+  const schemes = getAppSchemes();
+  if (getAppConfigExtra() && !schemes.some((registered) => registered.toLowerCase() === scheme)) {
+    console.warn(
+      `[Scalekit] redirectUri "${redirectUri}" uses the scheme "${scheme}", but the app is only registered for ${schemes
+        .map((registered) => `"${registered}"`)
+        .join(', ')}. The OAuth callback will not return to the app.`
+    );
+  }
+};
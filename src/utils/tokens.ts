@@ -0,0 +1,41 @@
+/**
+ * @scalekit-sdk/expo - Token Response Utilities
+ *
+ * Maps token endpoint responses to the SDK's token shape
+ */
+
+import { ScalekitTokens } from '../types';
+
+/**
+ * Lifetime assumed when a token response has no usable `expires_in` (RFC 6749 only
+ * recommends it), in seconds
+ */
+export const DEFAULT_EXPIRES_IN = 3600;
+
+/**
+ * Read a duration in seconds from a server response (e.g. `expires_in`), falling back
+ * when it is missing or not a positive number
+ */
+export const parseSeconds = (value: unknown, fallback: number): number => {
+  const seconds = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) && seconds > 0
+    ? seconds
+    : fallback;
+};
+
+/**
+ * Parse a token endpoint response
+ *
+ * @param now Time the response was received (ms), used to compute `expiresAt`
+ */
+export const parseTokenResponse = (data: any, now: number = Date.now()): ScalekitTokens => {
+  const expiresIn = parseSeconds(data.expires_in, DEFAULT_EXPIRES_IN);
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    idToken: data.id_token,
+    tokenType: data.token_type,
+    expiresIn,
+    expiresAt: now + expiresIn * 1000,
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * @scalekit-sdk/expo - Web Utilities
+ *
+ * Browser helpers for Expo web builds
+ */
+
+import { Platform } from 'react-native';
+
+/**
+ * Whether the SDK is running in a browser
+ */
+export const isWeb = Platform.OS === 'web';
+
+/**
+ * Minimal Web Storage area (localStorage / sessionStorage)
+ */
+export interface BrowserStorageArea {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Subset of the browser window used by the SDK
+ *
+ * The package compiles without the DOM lib, so only what is needed is typed here.
+ */
+export interface BrowserWindow {
+  location: {
+    href: string;
+    origin: string;
+    assign(url: string): void;
+  };
+  history: {
+    replaceState(data: unknown, unused: string, url?: string): void;
+  };
+  localStorage: BrowserStorageArea;
+  sessionStorage: BrowserStorageArea;
+}
+
+/**
+ * Get the browser window, or null outside of a browser
+ */
+export const getBrowserWindow = (): BrowserWindow | null => {
+  const { window } = globalThis as { window?: BrowserWindow };
+  return isWeb && window ? window : null;
+};
+
+/**
+ * Cross-tab auth event
+ */
+export type AuthBroadcastMessage = 'login' | 'logout' | 'refresh';
+
+/**
+ * Channel notifying other browser tabs about sign-in and sign-out
+ */
+export interface AuthBroadcast {
+  post(message: AuthBroadcastMessage): void;
+  close(): void;
+}
+
+/**
+ * Open a cross-tab auth channel, or return null when BroadcastChannel is unavailable
+ */
+export const createAuthBroadcast = (
+  name: string,
+  onMessage: (message: AuthBroadcastMessage) => void
+): AuthBroadcast | null => {
+  if (!isWeb || typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: { data: AuthBroadcastMessage }) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};